@@ -0,0 +1,67 @@
+import { postMessageToController } from "../renderer";
+import { html } from "@plutojl/rainbow/ui";
+
+/** @jsxImportSource preact */
+
+type FrameLocation =
+  | { cellId: string; line: number }
+  | { file: string; line: number; url?: string };
+
+interface StackFrameView {
+  call: string;
+  source: string;
+  location?: FrameLocation;
+  internal: boolean;
+}
+
+export interface PlutoErrorData {
+  message: string;
+  groups: { internal: boolean; frames: StackFrameView[] }[];
+}
+
+interface PlutoErrorProps {
+  error: PlutoErrorData;
+}
+
+const renderFrame = (frame: StackFrameView) =>
+  html`<li>
+    <code>${frame.call}</code>
+    ${" @ "}
+    ${
+      frame.location
+        ? html`<a
+            href="#"
+            onClick=${(e: MouseEvent) => {
+              e.preventDefault();
+              postMessageToController({
+                type: "openFrame",
+                location: frame.location,
+              });
+            }}
+            >${frame.source}</a
+          >`
+        : html`<span>${frame.source}</span>`
+    }
+  </li>`;
+
+export function PlutoError({ error }: PlutoErrorProps) {
+  return html`
+    <div style="color: var(--vscode-errorForeground)">
+      <pre style="white-space: pre-wrap; margin: 0 0 4px">${error.message}</pre>
+      <ol style="margin: 0; padding-left: 20px">
+        ${error.groups.map((group) =>
+          group.internal
+            ? html`<li style="list-style: none">
+                <details>
+                  <summary>${group.frames.length} internal frame(s)</summary>
+                  <ol style="padding-left: 20px; opacity: 0.7">
+                    ${group.frames.map(renderFrame)}
+                  </ol>
+                </details>
+              </li>`
+            : group.frames.map(renderFrame)
+        )}
+      </ol>
+    </div>
+  `;
+}
@@ -0,0 +1,75 @@
+import { html, OutputBody } from "@plutojl/rainbow/ui";
+
+/** @jsxImportSource preact */
+
+/** A value formatted by Pluto, as `[body, mime]` */
+type FormattedValue = [string | Uint8Array, string];
+
+export interface PlutoLogData {
+  level: string;
+  msg: FormattedValue;
+  file?: string;
+  line?: number;
+  kwargs?: [string, FormattedValue][];
+}
+
+interface PlutoLogProps {
+  log: PlutoLogData;
+}
+
+// Pluto reports `print` output as a log with this level
+const STDOUT_LEVEL = "LogLevel(-555)";
+
+const LEVEL_COLORS: Record<string, string> = {
+  Error: "var(--vscode-errorForeground)",
+  Warn: "var(--vscode-editorWarning-foreground)",
+  Info: "var(--vscode-editorInfo-foreground)",
+  Debug: "var(--vscode-descriptionForeground)",
+};
+
+const renderValue = ([body, mime]: FormattedValue) => html`<${OutputBody}
+  cell_id=""
+  last_run_timestamp="${0}"
+  persist_js_state="${false}"
+  body="${body}"
+  mime="${mime}"
+  sanitize_html="${false}"
+></${OutputBody}>`;
+
+// Notebook files are shown as `notebook.jl#==#<cell id>`
+const formatSource = (file?: string, line?: number): string => {
+  if (!file) {
+    return "";
+  }
+  const name = file.split(/[\\/]/).pop()?.split("#==#")[0] ?? file;
+  return line ? `${name}:${line}` : name;
+};
+
+export function PlutoLog({ log }: PlutoLogProps) {
+  if (log.level === STDOUT_LEVEL) {
+    return html`<pre style="margin: 0">${log.msg[0]}</pre>`;
+  }
+
+  const color = LEVEL_COLORS[log.level] ?? LEVEL_COLORS.Debug;
+  return html`
+    <div style="border-left: 3px solid ${color}; padding-left: 8px">
+      <div style="display: flex; gap: 8px; align-items: baseline">
+        <strong style="color: ${color}">${log.level}</strong>
+        <div style="flex: 1">${renderValue(log.msg)}</div>
+        <small style="opacity: 0.7">${formatSource(log.file, log.line)}</small>
+      </div>
+      ${
+        (log.kwargs ?? []).length > 0 &&
+        html`<table>
+          ${log.kwargs?.map(
+            ([name, value]) =>
+              html`<tr>
+                <td><code>${name}</code></td>
+                <td>${renderValue(value)}</td>
+              </tr>`
+          )}
+        </table>`
+      }
+    </div>
+  `;
+}
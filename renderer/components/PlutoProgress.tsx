@@ -0,0 +1,30 @@
+import { html } from "@plutojl/rainbow/ui";
+
+/** @jsxImportSource preact */
+
+export interface PlutoProgressData {
+  name: string;
+  /** Between 0 and 1, missing while the total is unknown */
+  fraction?: number;
+  /** Estimated time left, e.g. `3m 4s` */
+  eta?: string;
+}
+
+interface PlutoProgressProps {
+  progress: PlutoProgressData;
+}
+
+export function PlutoProgress({ progress }: PlutoProgressProps) {
+  const { name, fraction, eta } = progress;
+  const percent =
+    fraction !== undefined ? `${Math.floor(fraction * 100)}%` : "";
+
+  return html`
+    <div style="display: flex; gap: 8px; align-items: center">
+      <span>${name}</span>
+      <progress style="flex: 1" max="1" value=${fraction}></progress>
+      <span>${percent}</span>
+      ${eta && html`<small style="opacity: 0.7">ETA ${eta}</small>`}
+    </div>
+  `;
+}
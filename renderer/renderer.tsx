@@ -4,6 +4,9 @@ import type {
   RendererContext,
 } from "vscode-notebook-renderer";
 import { PlutoOutput } from "./components/PlutoOutput";
+import { PlutoError, PlutoErrorData } from "./components/PlutoError";
+import { PlutoLog, PlutoLogData } from "./components/PlutoLog";
+import { PlutoProgress, PlutoProgressData } from "./components/PlutoProgress";
 import { html, render } from "@plutojl/rainbow/ui";
 
 interface PlutoOutputData {
@@ -51,6 +54,22 @@ export const activate: ActivationFunction = (
 
   return {
     renderOutputItem(outputItem, element) {
+      if (outputItem.mime === "x-application/pluto-error") {
+        const error: PlutoErrorData = outputItem.json();
+        render(html`<${PlutoError} error="${error}" />`, element);
+        return;
+      }
+      if (outputItem.mime === "x-application/pluto-log") {
+        const log: PlutoLogData = outputItem.json();
+        render(html`<${PlutoLog} log="${log}" />`, element);
+        return;
+      }
+      if (outputItem.mime === "x-application/pluto-progress") {
+        const progress: PlutoProgressData = outputItem.json();
+        render(html`<${PlutoProgress} progress="${progress}" />`, element);
+        return;
+      }
+
       const output: PlutoOutputData = outputItem.json();
       // Render directly into the provided element
       // This ensures VS Code can properly clear/replace outputs
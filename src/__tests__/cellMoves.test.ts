@@ -0,0 +1,85 @@
+import { moveCellsInOrder, planCellMoves } from "../cellMoves.ts";
+
+// Send the moves to a simulated Pluto notebook
+function applyMoves(
+  plutoOrder: string[],
+  vscodeOrder: string[],
+  moved: string[]
+): string[] {
+  return planCellMoves(plutoOrder, vscodeOrder, new Set(moved)).reduce(
+    (order, { cellId, index }) => moveCellsInOrder(order, [cellId], index),
+    plutoOrder
+  );
+}
+
+describe("Cell Moves", () => {
+  describe("moveCellsInOrder", () => {
+    it("should count the index in the order before the move", () => {
+      expect(moveCellsInOrder(["a", "b", "c"], ["a"], 2)).toEqual([
+        "b",
+        "a",
+        "c",
+      ]);
+      expect(moveCellsInOrder(["a", "b", "c"], ["c"], 0)).toEqual([
+        "c",
+        "a",
+        "b",
+      ]);
+    });
+  });
+
+  describe("planCellMoves", () => {
+    it("should send one past the final index when moving down", () => {
+      expect(
+        planCellMoves(
+          ["a", "b", "c", "d"],
+          ["b", "c", "a", "d"],
+          new Set(["a"])
+        )
+      ).toEqual([{ cellId: "a", index: 3 }]);
+      expect(
+        applyMoves(["a", "b", "c", "d"], ["b", "c", "a", "d"], ["a"])
+      ).toEqual(["b", "c", "a", "d"]);
+    });
+
+    it("should send the final index when moving up", () => {
+      expect(
+        planCellMoves(
+          ["a", "b", "c", "d"],
+          ["a", "d", "b", "c"],
+          new Set(["d"])
+        )
+      ).toEqual([{ cellId: "d", index: 1 }]);
+      expect(
+        applyMoves(["a", "b", "c", "d"], ["a", "d", "b", "c"], ["d"])
+      ).toEqual(["a", "d", "b", "c"]);
+    });
+
+    it("should move a cell to the end and to the top", () => {
+      expect(applyMoves(["a", "b", "c"], ["b", "c", "a"], ["a"])).toEqual([
+        "b",
+        "c",
+        "a",
+      ]);
+      expect(applyMoves(["a", "b", "c"], ["c", "a", "b"], ["c"])).toEqual([
+        "c",
+        "a",
+        "b",
+      ]);
+    });
+
+    it("should move several cells in both directions at once", () => {
+      const vscodeOrder = ["e", "b", "c", "a", "d"];
+
+      expect(
+        applyMoves(["a", "b", "c", "d", "e"], vscodeOrder, ["a", "e"])
+      ).toEqual(vscodeOrder);
+    });
+
+    it("should skip cells Pluto does not have yet", () => {
+      expect(
+        applyMoves(["a", "b", "c"], ["b", "new", "a", "c"], ["a", "new"])
+      ).toEqual(["b", "a", "c"]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { CellOrderEdits, diffCellOrder } from "../cellOrderDiff.ts";
+
+// Apply the edits the way the controller does: deletions, then insertions
+function applyEdits(current: string[], edits: CellOrderEdits): string[] {
+  const result = [...current];
+  for (const { index, count } of [...edits.deletions].reverse()) {
+    result.splice(index, count);
+  }
+  for (const { index, cellIds } of [...edits.insertions].reverse()) {
+    result.splice(index, 0, ...cellIds);
+  }
+  return result;
+}
+
+describe("diffCellOrder", () => {
+  it("should return no edits for the same order", () => {
+    expect(diffCellOrder(["a", "b", "c"], ["a", "b", "c"])).toEqual({
+      deletions: [],
+      insertions: [],
+    });
+  });
+
+  it("should insert new cells", () => {
+    const edits = diffCellOrder(["a", "b"], ["x", "a", "y", "z", "b"]);
+    expect(edits).toEqual({
+      deletions: [],
+      insertions: [
+        { index: 0, cellIds: ["x"] },
+        { index: 1, cellIds: ["y", "z"] },
+      ],
+    });
+  });
+
+  it("should delete removed cells as ranges", () => {
+    const edits = diffCellOrder(["a", "b", "c", "d", "e"], ["a", "e"]);
+    expect(edits).toEqual({
+      deletions: [{ index: 1, count: 3 }],
+      insertions: [],
+    });
+  });
+
+  it("should move as few cells as possible", () => {
+    const edits = diffCellOrder(["d", "a", "b", "c"], ["a", "b", "c", "d"]);
+    expect(edits).toEqual({
+      deletions: [{ index: 0, count: 1 }],
+      insertions: [{ index: 3, cellIds: ["d"] }],
+    });
+  });
+
+  it("should handle moves, insertions and deletions together", () => {
+    const cases: [string[], string[]][] = [
+      [
+        ["a", "b", "c", "d", "e"],
+        ["e", "x", "c", "a", "y"],
+      ],
+      [["a", "b", "c"], []],
+      [[], ["a", "b"]],
+      [
+        ["a", "b", "c", "d"],
+        ["d", "c", "b", "a"],
+      ],
+    ];
+    for (const [current, target] of cases) {
+      expect(applyEdits(current, diffCellOrder(current, target))).toEqual(
+        target
+      );
+    }
+  });
+});
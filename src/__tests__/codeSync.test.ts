@@ -0,0 +1,17 @@
+import { getCodeSyncAction } from "../codeSync.ts";
+
+describe("getCodeSyncAction", () => {
+  it("should send code that differs from Pluto's", () => {
+    expect(getCodeSyncAction("x = 2", "x = 1", false)).toBe("send");
+  });
+
+  it("should skip code Pluto already has", () => {
+    expect(getCodeSyncAction("x = 1", "x = 1", false)).toBe("skip");
+  });
+
+  it("should not overwrite Pluto's version while the conflict prompt is open", () => {
+    expect(getCodeSyncAction("x = 2", "x = 1", true)).toBe("postpone");
+    // Once the user kept their version, it is sent after all
+    expect(getCodeSyncAction("x = 2", "x = 1", false)).toBe("send");
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  EphemeralRun,
+  claimEphemeralCells,
+  withoutEphemeralCells,
+} from "../ephemeralCells.ts";
+
+describe("Ephemeral Cells", () => {
+  describe("claimEphemeralCells", () => {
+    it("should claim the cell added at the top since the run started", () => {
+      const run: EphemeralRun = { before: new Set(["a", "b"]) };
+      const ephemeralCells = new Set<string>();
+
+      claimEphemeralCells([run], ["tmp", "a", "b"], ephemeralCells);
+
+      expect(run.cellId).toBe("tmp");
+      expect(ephemeralCells).toEqual(new Set(["tmp"]));
+    });
+
+    it("should leave cells added further down to the notebook", () => {
+      const run: EphemeralRun = { before: new Set(["a", "b"]) };
+      const ephemeralCells = new Set<string>();
+
+      claimEphemeralCells([run], ["a", "new", "b"], ephemeralCells);
+
+      expect(run.cellId).toBeUndefined();
+      expect(ephemeralCells.size).toBe(0);
+    });
+
+    it("should not claim a cell without the order from before the run", () => {
+      const run: EphemeralRun = {};
+      const ephemeralCells = new Set<string>();
+
+      claimEphemeralCells([run], ["a", "b"], ephemeralCells);
+
+      expect(run.cellId).toBeUndefined();
+    });
+
+    it("should give concurrent runs their own cell", () => {
+      const first: EphemeralRun = { before: new Set(["a"]) };
+      const second: EphemeralRun = { before: new Set(["a"]) };
+      const ephemeralCells = new Set<string>();
+
+      claimEphemeralCells([first, second], ["tmp1", "a"], ephemeralCells);
+      claimEphemeralCells(
+        [first, second],
+        ["tmp2", "tmp1", "a"],
+        ephemeralCells
+      );
+
+      expect(first.cellId).toBe("tmp1");
+      expect(second.cellId).toBe("tmp2");
+    });
+  });
+
+  describe("withoutEphemeralCells", () => {
+    it("should drop temporary cells from the order", () => {
+      const ephemeralCells = new Set(["tmp"]);
+
+      expect(
+        withoutEphemeralCells(["tmp", "a", "b"], (cellId) =>
+          ephemeralCells.has(cellId)
+        )
+      ).toEqual(["a", "b"]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtempSync, writeFileSync, chmodSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  detectJuliaInstallations,
+  getInstallationLabel,
+  parseJuliaupConfig,
+  parseJuliaVersion,
+} from "../juliaInstallations.ts";
+
+describe("Julia Installation Functions", () => {
+  describe("parseJuliaupConfig", () => {
+    it("should list the default and other channels", () => {
+      const output = JSON.stringify({
+        DefaultChannel: {
+          Name: "release",
+          File: "/home/user/.julia/juliaup/julia-1.11.2+0.x64.linux.gnu/bin/julia",
+          Args: [],
+          Version: "1.11.2+0.x64.linux.gnu",
+          Arch: "x64",
+        },
+        OtherChannels: [
+          {
+            Name: "1.10",
+            File: "/home/user/.julia/juliaup/julia-1.10.7+0.x64.linux.gnu/bin/julia",
+            Args: [],
+            Version: "1.10.7+0.x64.linux.gnu",
+            Arch: "x64",
+          },
+        ],
+      });
+
+      expect(parseJuliaupConfig(output)).toEqual([
+        {
+          id: "juliaup:release",
+          executablePath:
+            "/home/user/.julia/juliaup/julia-1.11.2+0.x64.linux.gnu/bin/julia",
+          version: "1.11.2",
+          channel: "release",
+          source: "juliaup",
+        },
+        {
+          id: "juliaup:1.10",
+          executablePath:
+            "/home/user/.julia/juliaup/julia-1.10.7+0.x64.linux.gnu/bin/julia",
+          version: "1.10.7",
+          channel: "1.10",
+          source: "juliaup",
+        },
+      ]);
+    });
+
+    it("should return no installations for invalid output", () => {
+      expect(parseJuliaupConfig("not json")).toEqual([]);
+    });
+  });
+
+  describe("parseJuliaVersion", () => {
+    it("should read the version from julia --version", () => {
+      expect(parseJuliaVersion("julia version 1.10.4\n")).toBe("1.10.4");
+      expect(parseJuliaVersion("")).toBeUndefined();
+    });
+  });
+
+  describe("getInstallationLabel", () => {
+    it("should include the version when known", () => {
+      expect(
+        getInstallationLabel({
+          id: "path:/usr/bin/julia",
+          executablePath: "/usr/bin/julia",
+          version: "1.10.4",
+          source: "path",
+        })
+      ).toBe("Pluto (Julia 1.10.4)");
+    });
+  });
+
+  if (process.platform !== "win32") {
+    describe("detectJuliaInstallations", () => {
+      it("should find julia on the PATH and configured executables once", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "julia-"));
+        const julia = join(dir, "julia");
+        writeFileSync(julia, "#!/bin/sh\necho 'julia version 1.10.4'\n");
+        chmodSync(julia, 0o755);
+
+        const installations = await detectJuliaInstallations([julia], {
+          PATH: dir,
+        });
+
+        expect(installations).toHaveLength(1);
+        expect(installations[0]).toEqual(
+          expect.objectContaining({
+            executablePath: julia,
+            version: "1.10.4",
+            source: "path",
+          })
+        );
+      });
+    });
+  }
+});
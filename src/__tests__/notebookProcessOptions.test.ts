@@ -0,0 +1,124 @@
+import {
+  buildEnvFileSetupCode,
+  buildEnvSetupCode,
+  formatEnvFile,
+  globToRegExp,
+  parseDotEnv,
+  parseFrontmatterProcessOptions,
+  resolveNotebookProcessOptions,
+} from "../notebookProcessOptions.ts";
+
+describe("Notebook Process Options", () => {
+  describe("globToRegExp", () => {
+    it("should match relative patterns against the end of the path", () => {
+      const pattern = globToRegExp("analysis/*.jl");
+      expect(pattern.test("/work/project/analysis/model.jl")).toBe(true);
+      expect(pattern.test("/work/project/analysis/sub/model.jl")).toBe(false);
+    });
+
+    it("should match across directories with **", () => {
+      const pattern = globToRegExp("/work/**/*.jl");
+      expect(pattern.test("/work/model.jl")).toBe(true);
+      expect(pattern.test("/work/a/b/model.jl")).toBe(true);
+      expect(pattern.test("/other/model.jl")).toBe(false);
+    });
+  });
+
+  describe("parseDotEnv", () => {
+    it("should parse quoted, unquoted and exported values", () => {
+      const env = parseDotEnv(
+        [
+          "# credentials",
+          "API_KEY=abc123 # inline comment",
+          'export NAME="Pluto \\"Notebook\\""',
+          "PATTERN='a#b'",
+          "",
+          "not a variable",
+        ].join("\n")
+      );
+      expect(env).toEqual({
+        API_KEY: "abc123",
+        NAME: 'Pluto "Notebook"',
+        PATTERN: "a#b",
+      });
+    });
+  });
+
+  describe("parseFrontmatterProcessOptions", () => {
+    it("should read the process tables of the frontmatter", () => {
+      const content = [
+        "### A Pluto.jl notebook ###",
+        "# v0.20.4",
+        "",
+        "#> [frontmatter]",
+        '#> title = "Model"',
+        "#>",
+        "#> [frontmatter.process]",
+        "#> threads = 4",
+        '#> env_file = ".env"',
+        "#>",
+        "#> [frontmatter.process.env]",
+        '#> DATA_DIR = "/data"',
+        "#>",
+        "#> [frontmatter.process.compiler_options]",
+        '#> heap_size_hint = "2G"',
+        "#> check_bounds = false",
+        "",
+        "using Markdown",
+      ].join("\n");
+
+      expect(parseFrontmatterProcessOptions(content)).toEqual({
+        threads: 4,
+        envFile: ".env",
+        env: { DATA_DIR: "/data" },
+        compilerOptions: { heap_size_hint: "2G", check_bounds: false },
+      });
+    });
+
+    it("should return no options without frontmatter", () => {
+      expect(parseFrontmatterProcessOptions("using Markdown")).toEqual({});
+    });
+  });
+
+  describe("resolveNotebookProcessOptions", () => {
+    it("should merge matching settings with the frontmatter taking precedence", () => {
+      const options = resolveNotebookProcessOptions(
+        "/work/analysis/model.jl",
+        {
+          "**/*.jl": { env: { A: "1", B: "1" }, threads: 2 },
+          "analysis/*.jl": { env: { B: "2" }, envFile: ".env" },
+          "reports/*.jl": { env: { C: "3" } },
+        },
+        { threads: 8, compilerOptions: { heap_size_hint: "2G" } }
+      );
+
+      expect(options).toEqual({
+        env: { A: "1", B: "2" },
+        envFile: ".env",
+        compilerOptions: { threads: "8", heap_size_hint: "2G" },
+      });
+    });
+  });
+
+  describe("buildEnvSetupCode", () => {
+    it("should escape values for Julia strings", () => {
+      expect(buildEnvSetupCode({ KEY: 'a"b$c\\d' })).toBe(
+        'ENV["KEY"] = "a\\"b\\$c\\\\d"; nothing'
+      );
+    });
+  });
+
+  describe("formatEnvFile", () => {
+    it("should separate entries with NUL characters", () => {
+      expect(formatEnvFile({ A: "1", B: "x=y" })).toBe("A=1\0B=x=y");
+    });
+  });
+
+  describe("buildEnvFileSetupCode", () => {
+    it("should only reference the file, not the values", () => {
+      const code = buildEnvFileSetupCode("/tmp/pluto-env-1");
+      expect(code).toContain('let path = "/tmp/pluto-env-1"');
+      expect(code).toContain("rm(path; force=true)");
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { applyPatches } from "../patchBatch.ts";
+
+interface TestPatch {
+  path: string[];
+}
+
+describe("applyPatches", () => {
+  it("should apply the patches after one for a cell that is not known yet", () => {
+    const knownCells = new Set(["known"]);
+    const applied: string[] = [];
+    const failed: string[] = [];
+
+    applyPatches<TestPatch>(
+      [
+        { path: ["cell_results", "unknown", "output"] },
+        { path: ["cell_results", "known", "output"] },
+      ],
+      (patch) => {
+        if (!knownCells.has(patch.path[1])) {
+          throw new Error("Can not determine notebook cell");
+        }
+        applied.push(patch.path[1]);
+      },
+      (patch) => failed.push(patch.path[1])
+    );
+
+    expect(applied).toEqual(["known"]);
+    expect(failed).toEqual(["unknown"]);
+  });
+
+  it("should apply every patch of a batch in order", () => {
+    const applied: number[] = [];
+    applyPatches(
+      [1, 2, 3],
+      (patch) => applied.push(patch),
+      () => {
+        throw new Error("no patch should fail");
+      }
+    );
+    expect(applied).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,34 @@
+import { createServer, Server } from "net";
+import { findFreePort, isPortAvailable } from "../ports.ts";
+
+describe("Port Functions", () => {
+  let server: Server;
+  let takenPort: number;
+
+  beforeAll(async () => {
+    server = createServer();
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", () => resolve())
+    );
+    takenPort = (server.address() as { port: number }).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should report a bound port as unavailable", async () => {
+    expect(await isPortAvailable(takenPort)).toBe(false);
+  });
+
+  it("should skip taken ports when searching", async () => {
+    const port = await findFreePort(takenPort);
+    expect(port).toBeDefined();
+    expect(port).not.toBe(takenPort);
+    expect(port).toBeGreaterThan(takenPort);
+  });
+
+  it("should give up after the given number of attempts", async () => {
+    expect(await findFreePort(takenPort, 1)).toBeUndefined();
+  });
+});
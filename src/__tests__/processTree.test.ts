@@ -0,0 +1,56 @@
+import { spawn } from "child_process";
+import {
+  USE_PROCESS_GROUPS,
+  hasExited,
+  spawnProcessTree,
+  terminateProcessTree,
+  waitForExit,
+} from "../processTree.ts";
+
+function spawnNode(script: string) {
+  return spawn(process.execPath, ["-e", script], {
+    detached: USE_PROCESS_GROUPS,
+    stdio: "ignore",
+  });
+}
+
+describe("Process Tree Functions", () => {
+  it("should report a process that is still running after the timeout", async () => {
+    const child = spawnNode("setInterval(() => {}, 1000)");
+    expect(await waitForExit(child, 100)).toBe(false);
+    await terminateProcessTree(child, 2000);
+  });
+
+  it("should terminate a process that exits on SIGTERM", async () => {
+    const child = spawnNode("setInterval(() => {}, 1000)");
+    expect(await terminateProcessTree(child, 2000)).toBe(true);
+    expect(hasExited(child)).toBe(true);
+  });
+
+  it("should kill a process that ignores SIGTERM", async () => {
+    const child = spawnNode(
+      "process.on('SIGTERM', () => {}); setInterval(() => {}, 1000)"
+    );
+    // Give the handler time to be installed
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(await terminateProcessTree(child, 300)).toBe(true);
+    expect(hasExited(child)).toBe(true);
+  });
+
+  it("should let a spawned process notice when stdin closes", async () => {
+    const child = spawnProcessTree(process.execPath, [
+      "-e",
+      "process.stdin.on('end', () => process.exit(0)); process.stdin.resume(); setInterval(() => {}, 1000)",
+    ]);
+    expect(await waitForExit(child, 100)).toBe(false);
+    child.stdin?.end();
+    expect(await waitForExit(child, 5000)).toBe(true);
+  });
+
+  it("should resolve immediately for a process that already exited", async () => {
+    const child = spawnNode("");
+    await waitForExit(child, 5000);
+    expect(await waitForExit(child, 0)).toBe(true);
+    expect(await terminateProcessTree(child, 100)).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  PlutoLogEntry,
+  ProgressTracker,
+  formatEta,
+  isProgressLog,
+} from "../progressLogs.ts";
+
+function progressLog(progress: string, id = "bar"): PlutoLogEntry {
+  return {
+    level: "LogLevel(-1)",
+    msg: ["Simulating", "text/plain"],
+    id,
+    kwargs: [["progress", [progress, "text/plain"]]],
+  };
+}
+
+describe("Progress Logs", () => {
+  describe("isProgressLog", () => {
+    it("should recognise ProgressLogging messages", () => {
+      expect(isProgressLog(progressLog("0.5"))).toBe(true);
+    });
+
+    it("should ignore other logs", () => {
+      expect(
+        isProgressLog({ level: "Info", msg: ["hello", "text/plain"] })
+      ).toBe(false);
+      expect(
+        isProgressLog({ level: "LogLevel(-1)", msg: ["hi", "text/plain"] })
+      ).toBe(false);
+    });
+  });
+
+  describe("ProgressTracker", () => {
+    it("should estimate the time left from the elapsed time", () => {
+      const tracker = new ProgressTracker();
+      tracker.update(progressLog("0.0"), 0);
+      const state = tracker.update(progressLog("0.25"), 10_000);
+      expect(state.fraction).toBe(0.25);
+      expect(state.eta).toBeCloseTo(30);
+      expect(state.done).toBe(false);
+    });
+
+    it("should mark finished progress as done", () => {
+      const tracker = new ProgressTracker();
+      const state = tracker.update(progressLog('"done"'), 0);
+      expect(state).toMatchObject({ fraction: 1, done: true });
+    });
+
+    it("should leave the fraction unknown for indeterminate progress", () => {
+      const tracker = new ProgressTracker();
+      const state = tracker.update(progressLog("nothing"), 0);
+      expect(state.fraction).toBeUndefined();
+      expect(state.eta).toBeUndefined();
+    });
+
+    it("should track bars separately", () => {
+      const tracker = new ProgressTracker();
+      tracker.update(progressLog("0.5", "a"), 0);
+      tracker.update(progressLog("0.1", "b"), 0);
+      expect(tracker.get("a")?.fraction).toBe(0.5);
+      expect(tracker.get("b")?.fraction).toBe(0.1);
+    });
+  });
+
+  describe("formatEta", () => {
+    it("should use the two largest units", () => {
+      expect(formatEta(5)).toBe("5s");
+      expect(formatEta(125)).toBe("2m 5s");
+      expect(formatEta(3720)).toBe("1h 2m");
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { chmodSync, mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { delimiter, dirname, join } from "path";
+import {
+  EXIT_ON_STDIN_CLOSE,
+  PLUTO_SHARED_ENVIRONMENT,
+  buildInstallCommand,
+  buildServerCommand,
+  isJuliaupLauncher,
+  validateServerOptions,
+  resolveExecutable,
+} from "../serverConfig.ts";
+
+describe("Server Config Functions", () => {
+  describe("buildServerCommand", () => {
+    it("should default to julia with only the Pluto expression", () => {
+      const { command, args } = buildServerCommand({}, 1234, {});
+      expect(command).toBe("julia");
+      expect(args).toHaveLength(2);
+      expect(args[0]).toBe("-e");
+      expect(args[1]).toContain("Pluto.run(port=1234");
+    });
+
+    it("should exit the server once stdin closes", () => {
+      const { args } = buildServerCommand({}, 1234, {});
+      const expression = args[1];
+      expect(expression).toContain(EXIT_ON_STDIN_CLOSE);
+      expect(expression.indexOf(EXIT_ON_STDIN_CLOSE)).toBeLessThan(
+        expression.indexOf("Pluto.run(")
+      );
+    });
+
+    it("should place channel, project, threads and extra args before -e", () => {
+      const { command, args } = buildServerCommand(
+        {
+          channel: "1.10",
+          project: "/work/env",
+          threads: "4",
+          args: ["--heap-size-hint=2G"],
+        },
+        4321,
+        {}
+      );
+      expect(command).toBe("julia");
+      expect(args.slice(0, 4)).toEqual([
+        "+1.10",
+        "--project=/work/env",
+        "--threads=4",
+        "--heap-size-hint=2G",
+      ]);
+      expect(args[4]).toBe("-e");
+      expect(args[5]).toContain("port=4321");
+    });
+
+    it("should only pass the channel to juliaup's launcher", () => {
+      const dir = mkdtempSync(join(tmpdir(), "julia-"));
+      const launcher = join(dir, ".juliaup", "bin", "julia");
+      const plain = join(dir, "julia-1.10", "bin", "julia");
+      for (const path of [launcher, plain]) {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, "#!/bin/sh\n");
+        chmodSync(path, 0o755);
+      }
+
+      expect(
+        buildServerCommand({ executablePath: launcher, channel: "1.10" }, 1, {})
+          .args
+      ).toContain("+1.10");
+      expect(
+        buildServerCommand({ executablePath: plain, channel: "1.10" }, 1, {})
+          .args
+      ).not.toContain("+1.10");
+      expect(isJuliaupLauncher(plain, {})).toBe(false);
+    });
+
+    it("should merge extra environment variables over the base env", () => {
+      const { env } = buildServerCommand(
+        { env: { JULIA_DEPOT_PATH: "/depot", FOO: "bar" } },
+        1234,
+        { FOO: "base", PATH: "/usr/bin" }
+      );
+      expect(env).toEqual({
+        JULIA_DEPOT_PATH: "/depot",
+        FOO: "bar",
+        PATH: "/usr/bin",
+        JULIA_LOAD_PATH: `${delimiter}${PLUTO_SHARED_ENVIRONMENT}`,
+      });
+    });
+
+    it("should append the shared environment to an existing load path", () => {
+      const { env } = buildServerCommand({}, 1234, {
+        JULIA_LOAD_PATH: "@stdlib",
+      });
+      expect(env.JULIA_LOAD_PATH).toBe(
+        `@stdlib${delimiter}${PLUTO_SHARED_ENVIRONMENT}`
+      );
+    });
+  });
+
+  describe("buildInstallCommand", () => {
+    it("should install the packages into the shared environment", () => {
+      const { command, args } = buildInstallCommand(
+        { executablePath: "julia", channel: "1.11", project: "/ignored" },
+        ["Pluto", "PlutoUI"],
+        {}
+      );
+      expect(command).toBe("julia");
+      expect(args).toContain("+1.11");
+      expect(args).toContain(`--project=${PLUTO_SHARED_ENVIRONMENT}`);
+      expect(args).not.toContain("--project=/ignored");
+      expect(args[args.length - 1]).toBe('import Pkg; Pkg.add(["Pluto","PlutoUI"])');
+    });
+  });
+
+  describe("validateServerOptions", () => {
+    it("should accept empty options", () => {
+      expect(validateServerOptions({})).toEqual([]);
+    });
+
+    it("should accept valid thread counts", () => {
+      for (const threads of ["1", "16", "auto", "4,1", "auto,2"]) {
+        expect(validateServerOptions({ threads })).toEqual([]);
+      }
+    });
+
+    it("should reject invalid thread counts and channels", () => {
+      expect(validateServerOptions({ threads: "many" })).toHaveLength(1);
+      expect(validateServerOptions({ channel: "1.10; rm" })).toHaveLength(1);
+    });
+
+    it("should reject missing project paths but allow shared environments", () => {
+      expect(
+        validateServerOptions({ project: "/definitely/not/here" })
+      ).toHaveLength(1);
+      expect(validateServerOptions({ project: "@pluto" })).toEqual([]);
+      expect(validateServerOptions({ project: "@." })).toEqual([]);
+    });
+
+    it("should reject extra args that would replace the server expression", () => {
+      expect(validateServerOptions({ args: ["-e"] })).toHaveLength(1);
+    });
+  });
+
+  describe("resolveExecutable", () => {
+    it("should find executables on PATH", () => {
+      expect(resolveExecutable("node")).toBeDefined();
+    });
+
+    it("should return undefined for unknown commands", () => {
+      expect(resolveExecutable("surely-not-a-julia-binary")).toBeUndefined();
+      expect(resolveExecutable("/no/such/julia")).toBeUndefined();
+    });
+  });
+});
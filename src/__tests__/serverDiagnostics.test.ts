@@ -0,0 +1,80 @@
+import { ServerOutputParser } from "../serverDiagnostics.ts";
+
+describe("ServerOutputParser", () => {
+  it("should group an ERROR block with its stack trace", () => {
+    const parser = new ServerOutputParser();
+    const output = [
+      "ERROR: LoadError: ArgumentError: Package Foo not found in current path.",
+      "Stacktrace:",
+      "  [1] macro expansion",
+      "    @ ./loading.jl:1772 [inlined]",
+      "in expression starting at /work/run.jl:1",
+      "Next line",
+      "",
+    ].join("\n");
+
+    const diagnostics = parser.push(output);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].severity).toBe("error");
+    expect(diagnostics[0].message).toBe(
+      "LoadError: ArgumentError: Package Foo not found in current path."
+    );
+    expect(diagnostics[0].details).toEqual([
+      "Stacktrace:",
+      "  [1] macro expansion",
+      "    @ ./loading.jl:1772 [inlined]",
+      "in expression starting at /work/run.jl:1",
+    ]);
+  });
+
+  it("should complete a multi-line log record at its closing line", () => {
+    const parser = new ServerOutputParser();
+    const diagnostics = parser.push(
+      "┌ Warning: Pluto is slow\n│   reason = 1\n└ @ Pluto ~/Pluto.jl:10\n"
+    );
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        message: "Pluto is slow",
+        details: ["  reason = 1", "@ Pluto ~/Pluto.jl:10"],
+      }),
+    ]);
+  });
+
+  it("should parse single-line log records", () => {
+    const parser = new ServerOutputParser();
+    const diagnostics = parser.push("[ Info: Loading...\n[ Error: Boom\n");
+    expect(diagnostics.map((d) => [d.severity, d.message])).toEqual([
+      ["info", "Loading..."],
+      ["error", "Boom"],
+    ]);
+  });
+
+  it("should report failed precompilation and package resolution", () => {
+    const parser = new ServerOutputParser();
+    const diagnostics = parser.push(
+      "Precompiling project...\n  ✗ Plots\nUnsatisfiable requirements detected for package Foo [1234]:\n"
+    );
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Failed to precompile Plots",
+      "Unsatisfiable requirements detected for package Foo [1234]:",
+    ]);
+  });
+
+  it("should handle lines split across chunks", () => {
+    const parser = new ServerOutputParser();
+    expect(parser.push("ERR")).toEqual([]);
+    expect(parser.push("OR: boom\n")).toEqual([]);
+    const diagnostics = parser.flush();
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe("boom");
+  });
+
+  it("should ignore ordinary output", () => {
+    const parser = new ServerOutputParser();
+    expect(
+      parser.push("Go to http://localhost:1234/ in your browser\n")
+    ).toEqual([]);
+    expect(parser.flush()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  buildNotebookUrl,
+  extractSecret,
+  parseServerUrl,
+  redactSecret,
+} from "../serverUrl.ts";
+
+describe("Server URL Functions", () => {
+  const startupLine =
+    "Go to http://localhost:1234/?secret=AbC123xY in your browser to start writing ~ have fun!";
+
+  describe("extractSecret", () => {
+    it("should read the secret from the Pluto startup line", () => {
+      expect(extractSecret(startupLine)).toBe("AbC123xY");
+    });
+
+    it("should find the secret after other query parameters", () => {
+      expect(extractSecret("http://host/edit?id=1&secret=s3cr3t")).toBe(
+        "s3cr3t"
+      );
+    });
+
+    it("should return undefined when there is no secret", () => {
+      expect(
+        extractSecret("Go to http://localhost:1234/ in your browser")
+      ).toBe(undefined);
+    });
+  });
+
+  describe("redactSecret", () => {
+    it("should hide secrets in logged text", () => {
+      const redacted = redactSecret(`${startupLine}\n${startupLine}`);
+      expect(redacted).not.toContain("AbC123xY");
+      expect(redacted).toContain("?secret=***");
+    });
+
+    it("should leave text without secrets unchanged", () => {
+      expect(redactSecret("Pluto server started")).toBe("Pluto server started");
+    });
+  });
+
+  describe("buildNotebookUrl", () => {
+    it("should include the notebook id and secret", () => {
+      expect(buildNotebookUrl("http://localhost:1234", "abc", "xyz")).toBe(
+        "http://localhost:1234/edit?id=abc&secret=xyz"
+      );
+    });
+
+    it("should omit the secret when there is none", () => {
+      expect(buildNotebookUrl("http://localhost:1234", "abc")).toBe(
+        "http://localhost:1234/edit?id=abc"
+      );
+    });
+  });
+
+  describe("parseServerUrl", () => {
+    it("should keep scheme, host, port and path prefix", () => {
+      expect(parseServerUrl("https://lab.example.org:8443/pluto/")).toEqual({
+        url: "https://lab.example.org:8443/pluto",
+        secret: undefined,
+      });
+    });
+
+    it("should split off the secret", () => {
+      expect(parseServerUrl("http://10.0.0.5:1234/?secret=abc")).toEqual({
+        url: "http://10.0.0.5:1234",
+        secret: "abc",
+      });
+    });
+
+    it("should reject invalid URLs and unsupported schemes", () => {
+      expect(() => parseServerUrl("not a url")).toThrow(/Invalid/);
+      expect(() => parseServerUrl("ftp://host/")).toThrow(/http or https/);
+    });
+  });
+});
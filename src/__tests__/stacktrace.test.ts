@@ -0,0 +1,129 @@
+import {
+  PlutoStackFrame,
+  formatStacktrace,
+  formatStacktraceText,
+  getFrameLocation,
+  isInternalFrame,
+} from "../stacktrace.ts";
+
+const CELL_ID = "a7bd2a4e-1b4c-4b6f-9c6e-0d2f1e3a4b5c";
+
+const cellFrame: PlutoStackFrame = {
+  call: "top-level scope",
+  file: `/home/user/notebook.jl#==#${CELL_ID}`,
+  line: 3,
+  source_package: "Main",
+};
+
+const packageFrame: PlutoStackFrame = {
+  call: "mean(A::Vector{Int64})",
+  file: "/home/user/.julia/packages/Statistics/xyz/src/Statistics.jl",
+  line: 174,
+  source_package: "Statistics",
+};
+
+const baseFrame: PlutoStackFrame = {
+  call: "eval",
+  file: "./boot.jl",
+  line: 385,
+  source_package: "Core",
+};
+
+const plutoFrame: PlutoStackFrame = {
+  call: "run_expression",
+  file: "/home/user/.julia/packages/Pluto/abc/src/runner/PlutoRunner.jl",
+  line: 500,
+  source_package: "PlutoRunner",
+};
+
+describe("Stacktrace Functions", () => {
+  describe("getFrameLocation", () => {
+    it("should point notebook frames to their cell", () => {
+      expect(getFrameLocation(cellFrame)).toEqual({
+        cellId: CELL_ID,
+        line: 3,
+      });
+    });
+
+    it("should point package frames to their file", () => {
+      expect(getFrameLocation(packageFrame)).toEqual({
+        file: packageFrame.file,
+        line: 174,
+      });
+    });
+
+    it("should keep the link to the source of file frames", () => {
+      const url =
+        "https://github.com/JuliaLang/julia/tree/v1.10.0/base/array.jl#L10";
+      expect(
+        getFrameLocation({
+          ...packageFrame,
+          file: "/cache/build/worker/julia/base/array.jl",
+          line: 10,
+          url,
+        })
+      ).toEqual({
+        file: "/cache/build/worker/julia/base/array.jl",
+        line: 10,
+        url,
+      });
+    });
+
+    it("should not point to files relative to the Julia build", () => {
+      expect(getFrameLocation(baseFrame)).toBeUndefined();
+    });
+  });
+
+  describe("isInternalFrame", () => {
+    it("should treat Pluto, Base and C frames as internal", () => {
+      expect(isInternalFrame(baseFrame)).toBe(true);
+      expect(isInternalFrame(plutoFrame)).toBe(true);
+      expect(isInternalFrame({ ...packageFrame, from_c: true })).toBe(true);
+    });
+
+    it("should keep notebook and package frames", () => {
+      expect(isInternalFrame(cellFrame)).toBe(false);
+      expect(isInternalFrame(packageFrame)).toBe(false);
+    });
+  });
+
+  describe("formatStacktrace", () => {
+    it("should group consecutive internal frames", () => {
+      const view = formatStacktrace(
+        {
+          msg: "MethodError: no method matching mean(::String)",
+          stacktrace: [packageFrame, cellFrame, baseFrame, plutoFrame],
+        },
+        (cellId) => (cellId === CELL_ID ? "Cell 2" : undefined)
+      );
+
+      expect(view.message).toBe(
+        "MethodError: no method matching mean(::String)"
+      );
+      expect(
+        view.groups.map((group) => [group.internal, group.frames.length])
+      ).toEqual([
+        [false, 2],
+        [true, 2],
+      ]);
+      expect(view.groups[0].frames.map((frame) => frame.source)).toEqual([
+        "Statistics.jl:174",
+        "Cell 2, line 3",
+      ]);
+    });
+
+    it("should format the trace as text", () => {
+      const view = formatStacktrace({
+        msg: "error",
+        stacktrace: [cellFrame, baseFrame, plutoFrame],
+      });
+      expect(formatStacktraceText(view)).toBe(
+        "  top-level scope @ Other cell, line 3\n  [2 internal frame(s)]"
+      );
+    });
+
+    it("should accept errors without a stack trace", () => {
+      expect(formatStacktrace({ msg: "error" }).groups).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { buildPlutoRunExpression } from "../serverConfig.ts";
+import {
+  checkServerVersions,
+  compareVersions,
+  isNotebookNewerThanServer,
+  parseServerVersions,
+  parseVersion,
+} from "../versionCheck.ts";
+
+describe("Version Check Functions", () => {
+  describe("parseServerVersions", () => {
+    it("should find the versions line in the launch output", () => {
+      const output =
+        "Precompiling...\npluto-notebook versions: julia=1.11.2 pluto=0.20.4\n";
+      expect(parseServerVersions(output)).toEqual({
+        julia: "1.11.2",
+        pluto: "0.20.4",
+      });
+    });
+
+    it("should return undefined before the line was printed", () => {
+      expect(parseServerVersions("Precompiling...")).toBeUndefined();
+    });
+
+    it("should match the line printed by the launch expression", () => {
+      expect(buildPlutoRunExpression(1234)).toContain(
+        'println("pluto-notebook versions: julia=",VERSION," pluto=",Pluto.PLUTO_VERSION)'
+      );
+    });
+  });
+
+  describe("parseVersion", () => {
+    it("should accept a leading v and missing parts", () => {
+      expect(parseVersion("v0.20.4")).toEqual([0, 20, 4]);
+      expect(parseVersion("1.10")).toEqual([1, 10, 0]);
+    });
+
+    it("should ignore pre-release suffixes", () => {
+      expect(parseVersion("1.12.0-beta1")).toEqual([1, 12, 0]);
+    });
+
+    it("should return undefined for non-versions", () => {
+      expect(parseVersion("")).toBeUndefined();
+      expect(parseVersion("nightly")).toBeUndefined();
+    });
+  });
+
+  describe("compareVersions", () => {
+    it("should compare numerically rather than lexically", () => {
+      expect(compareVersions("0.20.10", "0.20.9")).toBeGreaterThan(0);
+      expect(compareVersions("1.9.4", "1.10.0")).toBeLessThan(0);
+      expect(compareVersions("v0.20.4", "0.20.4")).toBe(0);
+    });
+  });
+
+  describe("checkServerVersions", () => {
+    it("should accept supported versions", () => {
+      expect(checkServerVersions({ julia: "1.11.2", pluto: "0.20.4" })).toEqual(
+        []
+      );
+    });
+
+    it("should warn about an old Julia", () => {
+      const warnings = checkServerVersions({ julia: "1.6.7", pluto: "0.20.4" });
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain("Julia 1.6.7");
+    });
+
+    it("should warn about Pluto versions on either side of the range", () => {
+      expect(
+        checkServerVersions({ julia: "1.11.2", pluto: "0.19.46" })[0]
+      ).toContain("older");
+      expect(
+        checkServerVersions({ julia: "1.11.2", pluto: "0.21.0" })[0]
+      ).toContain("newer");
+    });
+  });
+
+  describe("isNotebookNewerThanServer", () => {
+    it("should flag notebooks from a newer minor release", () => {
+      expect(isNotebookNewerThanServer("v0.21.0", "0.20.4")).toBe(true);
+      expect(isNotebookNewerThanServer("v1.0.0", "0.20.4")).toBe(true);
+    });
+
+    it("should accept notebooks from the same or an older minor release", () => {
+      expect(isNotebookNewerThanServer("v0.20.9", "0.20.4")).toBe(false);
+      expect(isNotebookNewerThanServer("v0.19.40", "0.20.4")).toBe(false);
+    });
+
+    it("should ignore missing versions", () => {
+      expect(isNotebookNewerThanServer("", "0.20.4")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  WorkerActivity,
+  findIdleNotebooks,
+  findLeastRecentlyUsed,
+  hasActiveCells,
+} from "../workerActivity.ts";
+
+describe("Worker Activity", () => {
+  describe("hasActiveCells", () => {
+    it("should detect running and queued cells", () => {
+      expect(
+        hasActiveCells({ a: { running: false }, b: { running: true } })
+      ).toBe(true);
+      expect(hasActiveCells({ a: { queued: true } })).toBe(true);
+    });
+
+    it("should treat finished cells as inactive", () => {
+      expect(hasActiveCells({ a: { running: false, queued: false } })).toBe(
+        false
+      );
+      expect(hasActiveCells(undefined)).toBe(false);
+    });
+  });
+
+  describe("findIdleNotebooks", () => {
+    it("should keep a notebook with a running cell although it sent no updates", () => {
+      const workers = new Map<string, WorkerActivity>([
+        ["/work/long.jl", { lastActivity: 0, busy: true }],
+        ["/work/idle.jl", { lastActivity: 0, busy: false }],
+        ["/work/recent.jl", { lastActivity: 200, busy: false }],
+      ]);
+      expect(findIdleNotebooks(workers, 100)).toEqual(["/work/idle.jl"]);
+    });
+  });
+
+  describe("findLeastRecentlyUsed", () => {
+    it("should skip a notebook with a running cell", () => {
+      const workers = new Map<string, WorkerActivity>([
+        ["/work/long.jl", { lastActivity: 0, busy: true }],
+        ["/work/b.jl", { lastActivity: 20, busy: false }],
+        ["/work/a.jl", { lastActivity: 10, busy: false }],
+      ]);
+      expect(findLeastRecentlyUsed(workers)).toBe("/work/a.jl");
+    });
+
+    it("should return nothing when every notebook is busy", () => {
+      const workers = new Map<string, WorkerActivity>([
+        ["/work/long.jl", { lastActivity: 0, busy: true }],
+      ]);
+      expect(findLeastRecentlyUsed(workers)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * A move to send to Pluto: the cell goes before the cell at `index` in
+ * Pluto's order from before the move
+ */
+export interface CellMove {
+  cellId: string;
+  index: number;
+}
+
+/**
+ * Move cells the way Pluto does. `index` counts in the order before the
+ * move, so moving a cell down needs an index one past its final position.
+ */
+export function moveCellsInOrder(
+  order: readonly string[],
+  cellIds: readonly string[],
+  index: number
+): string[] {
+  const before = order.slice(0, index).filter((id) => !cellIds.includes(id));
+  const after = order.slice(index).filter((id) => !cellIds.includes(id));
+  return [...before, ...cellIds, ...after];
+}
+
+/**
+ * The moves that bring cells moved in VS Code to the same place in Pluto.
+ * Each cell is put right after the cell before it in the VS Code order,
+ * going from top to bottom, which works for moves in either direction.
+ * Cells Pluto does not have yet are left out.
+ */
+export function planCellMoves(
+  plutoOrder: readonly string[],
+  vscodeOrder: readonly string[],
+  movedCellIds: ReadonlySet<string>
+): CellMove[] {
+  const moves: CellMove[] = [];
+  let order = [...plutoOrder];
+  vscodeOrder.forEach((cellId, position) => {
+    if (!movedCellIds.has(cellId) || !order.includes(cellId)) {
+      return;
+    }
+    const previous = vscodeOrder
+      .slice(0, position)
+      .reverse()
+      .find((id) => order.includes(id));
+    const index = previous === undefined ? 0 : order.indexOf(previous) + 1;
+    moves.push({ cellId, index });
+    order = moveCellsInOrder(order, [cellId], index);
+  });
+  return moves;
+}
@@ -0,0 +1,99 @@
+/**
+ * Edits that turn one cell order into another. VS Code applies the edits of
+ * a single workspace edit relative to the original document, so deletions
+ * and insertions are meant to be applied as two separate edits.
+ */
+export interface CellOrderEdits {
+  /** Ranges of cells to delete, as indices in the current order */
+  deletions: { index: number; count: number }[];
+  /**
+   * Runs of cells to insert, as indices in the order left after the
+   * deletions. Cells that also appear in the current order are moves.
+   */
+  insertions: { index: number; cellIds: string[] }[];
+}
+
+/**
+ * Compute the edits that turn the `current` cell order into `target`. The
+ * longest run of cells that are already in the right relative order stays in
+ * place; every other cell is removed, and moved or new cells are inserted.
+ */
+export function diffCellOrder(
+  current: string[],
+  target: string[]
+): CellOrderEdits {
+  const targetIndex = new Map(target.map((cellId, index) => [cellId, index]));
+
+  const surviving = current
+    .map((cellId, index) => ({ index, position: targetIndex.get(cellId) }))
+    .filter(
+      (cell): cell is { index: number; position: number } =>
+        cell.position !== undefined
+    );
+  const stable = longestIncreasingRun(
+    surviving.map((cell) => cell.position)
+  ).map((i) => surviving[i]);
+
+  const keptIndices = new Set(stable.map((cell) => cell.index));
+  const keptCells = new Set(stable.map((cell) => target[cell.position]));
+
+  const deletions: CellOrderEdits["deletions"] = [];
+  current.forEach((_, index) => {
+    if (keptIndices.has(index)) {
+      return;
+    }
+    const last = deletions[deletions.length - 1];
+    if (last && last.index + last.count === index) {
+      last.count++;
+    } else {
+      deletions.push({ index, count: 1 });
+    }
+  });
+
+  const insertions: CellOrderEdits["insertions"] = [];
+  let keptBefore = 0;
+  target.forEach((cellId, position) => {
+    if (keptCells.has(cellId)) {
+      keptBefore++;
+      return;
+    }
+    const last = insertions[insertions.length - 1];
+    if (last && last.index === keptBefore) {
+      last.cellIds.push(cellId);
+    } else {
+      insertions.push({ index: keptBefore, cellIds: [cellId] });
+    }
+  });
+
+  return { deletions, insertions };
+}
+
+/**
+ * Indices of a longest strictly increasing subsequence of `values`
+ */
+function longestIncreasingRun(values: number[]): number[] {
+  // tails[k]: index of the smallest value ending an increasing run of k + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const run: number[] = [];
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    run.unshift(i);
+  }
+  return run;
+}
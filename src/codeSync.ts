@@ -0,0 +1,18 @@
+/**
+ * What to do with the code of a VS Code cell once the user stopped typing:
+ * send it to Pluto, skip it because Pluto already has it, or postpone it
+ * while the user decides between their code and Pluto's version. Sending it
+ * then would overwrite Pluto's version before the user chose.
+ */
+export type CodeSyncAction = "send" | "skip" | "postpone";
+
+export function getCodeSyncAction(
+  code: string,
+  plutoCode: string | undefined,
+  conflicted: boolean
+): CodeSyncAction {
+  if (conflicted) {
+    return "postpone";
+  }
+  return code === plutoCode ? "skip" : "send";
+}
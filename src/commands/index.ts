@@ -8,7 +8,7 @@
  */
 
 import * as vscode from "vscode";
-import { PlutoManager } from "../plutoManager.ts";
+import { PlutoManagerRegistry } from "../shared/plutoManagerInstance.ts";
 
 // Re-export all commands from domain-specific modules
 export * from "./plutoServerCommands.ts";
@@ -41,17 +41,17 @@ import {
  * It's called during extension activation.
  *
  * @param context - Extension context for registering commands
- * @param plutoManager - Shared PlutoManager instance
+ * @param managers - PlutoManagers of all workspace folders
  */
 export function registerAllCommands(
   context: vscode.ExtensionContext,
-  plutoManager: PlutoManager
+  managers: PlutoManagerRegistry
 ): void {
   // Register Pluto Server commands
-  registerStartServerCommand(context, plutoManager);
-  registerStopServerCommand(context, plutoManager);
-  registerRestartServerCommand(context, plutoManager);
-  registerOpenInBrowserCommand(context, plutoManager);
+  registerStartServerCommand(context, managers);
+  registerStopServerCommand(context, managers);
+  registerRestartServerCommand(context, managers);
+  registerOpenInBrowserCommand(context, managers);
 
   // Register MCP Server commands
   registerStartMCPServerCommand(context);
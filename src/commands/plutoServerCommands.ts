@@ -1,47 +1,151 @@
 import * as vscode from "vscode";
 import { PlutoManager } from "../plutoManager.ts";
+import { PlutoManagerRegistry } from "../shared/plutoManagerInstance.ts";
+import { installPlutoPackages } from "../plutoInstaller.ts";
+import {
+  PlutoNotInstalledError,
+  ServerStartCancelledError,
+} from "../serverErrors.ts";
+import { PLUTO_SHARED_ENVIRONMENT } from "../serverConfig.ts";
 
 /**
  * Start Pluto server with progress notification
  */
 async function startServerWithProgress(
   plutoManager: PlutoManager,
-  message: string = "Pluto server is ready"
+  message: string = "Pluto server is ready",
+  offerInstall: boolean = true
+): Promise<void> {
+  try {
+    await launchServerWithProgress(plutoManager, message);
+  } catch (error: unknown) {
+    if (offerInstall && error instanceof PlutoNotInstalledError) {
+      if (await offerPlutoInstall(plutoManager)) {
+        await startServerWithProgress(plutoManager, message, false);
+        return;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Launch the server inside a progress notification
+ */
+async function launchServerWithProgress(
+  plutoManager: PlutoManager,
+  message: string
 ): Promise<void> {
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
       title: "Starting Pluto server...",
-      cancellable: false,
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
+      // Cancelling kills the half-started Julia process
+      const abortController = new AbortController();
+      token.onCancellationRequested(() => abortController.abort());
+
       try {
         progress.report({ message: "Launching Julia process..." });
-        await plutoManager.start();
+        await plutoManager.start(abortController.signal);
         progress.report({ message: "Server started successfully!" });
         vscode.window.showInformationMessage(message);
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        vscode.window.showErrorMessage(
-          `Failed to start Pluto server: ${errorMessage}`
-        );
+        if (error instanceof ServerStartCancelledError) {
+          vscode.window.showInformationMessage(error.message);
+        } else if (!(error instanceof PlutoNotInstalledError)) {
+          // A missing Pluto package is reported by the install prompt instead
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          vscode.window.showErrorMessage(
+            `Failed to start Pluto server: ${errorMessage}`
+          );
+        }
         throw error;
       }
     }
   );
 }
 
+/**
+ * Offer to install Pluto into the extension's shared Julia environment.
+ * Returns true when the installation finished successfully.
+ */
+async function offerPlutoInstall(plutoManager: PlutoManager): Promise<boolean> {
+  const installPluto = "Install Pluto";
+  const installWithUI = "Install Pluto and PlutoUI";
+  const choice = await vscode.window.showErrorMessage(
+    `Pluto is not installed for this Julia. Install it into the shared environment ${PLUTO_SHARED_ENVIRONMENT}?`,
+    installPluto,
+    installWithUI
+  );
+
+  if (!choice) {
+    return false;
+  }
+
+  const packages =
+    choice === installWithUI ? ["Pluto", "PlutoUI"] : ["Pluto"];
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Installing ${packages.join(" and ")}...`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+
+        await installPlutoPackages(
+          plutoManager.getServerOptions(),
+          packages,
+          (line) => {
+            plutoManager.log(`[Pluto Install] ${line}`);
+            progress.report({ message: line.trim().slice(0, 80) });
+          },
+          abortController.signal
+        );
+      }
+    );
+    vscode.window.showInformationMessage(
+      `${packages.join(" and ")} installed successfully`
+    );
+    return true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Failed to install Pluto: ${errorMessage}`);
+    return false;
+  }
+}
+
+/**
+ * Get the manager running the active notebook, or the default one when no
+ * notebook is active
+ */
+function getActiveManager(managers: PlutoManagerRegistry): PlutoManager {
+  const notebook = vscode.window.activeNotebookEditor?.notebook;
+  return notebook
+    ? managers.getManagerForNotebook(notebook.uri.fsPath)
+    : managers.getDefaultManager();
+}
+
 /**
  * Command: Start Pluto server
  */
 export function registerStartServerCommand(
   context: vscode.ExtensionContext,
-  plutoManager: PlutoManager
+  managers: PlutoManagerRegistry
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand("pluto-notebook.startServer", async () => {
-      await startServerWithProgress(plutoManager, "Pluto server started");
+      await startServerWithProgress(
+        getActiveManager(managers),
+        "Pluto server started"
+      );
     })
   );
 }
@@ -51,12 +155,12 @@ export function registerStartServerCommand(
  */
 export function registerStopServerCommand(
   context: vscode.ExtensionContext,
-  plutoManager: PlutoManager
+  managers: PlutoManagerRegistry
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand("pluto-notebook.stopServer", async () => {
       try {
-        await plutoManager.stop();
+        await getActiveManager(managers).stop();
         vscode.window.showInformationMessage("Pluto server stopped");
       } catch (error) {
         const errorMessage =
@@ -74,14 +178,14 @@ export function registerStopServerCommand(
  */
 export function registerRestartServerCommand(
   context: vscode.ExtensionContext,
-  plutoManager: PlutoManager
+  managers: PlutoManagerRegistry
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "pluto-notebook.restartServer",
       async () => {
         try {
-          await plutoManager.restart();
+          await getActiveManager(managers).restart();
           vscode.window.showInformationMessage("Pluto server restarted");
         } catch (error) {
           const errorMessage =
@@ -100,7 +204,7 @@ export function registerRestartServerCommand(
  */
 export function registerOpenInBrowserCommand(
   context: vscode.ExtensionContext,
-  plutoManager: PlutoManager
+  managers: PlutoManagerRegistry
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -116,7 +220,8 @@ export function registerOpenInBrowserCommand(
           notebookPath = activeEditor.document.uri.fsPath;
         }
 
-        // Check if server is running
+        // Check if the notebook's server is running
+        const plutoManager = managers.getManagerForNotebook(notebookPath);
         if (!plutoManager.isConnected()) {
           vscode.window.showErrorMessage(
             "Pluto server is not running. Start the server first."
@@ -133,12 +238,8 @@ export function registerOpenInBrowserCommand(
           return;
         }
 
-        // Get server port from config
-        const config = vscode.workspace.getConfiguration("pluto-notebook");
-        const serverPort = config.get<number>("port", 1234);
-
-        // Construct the URL
-        const url = `http://localhost:${serverPort}/edit?id=${worker.notebook_id}`;
+        // Construct the URL (includes the access secret)
+        const url = plutoManager.getNotebookUrl(worker.notebook_id);
 
         // Open in browser
         await vscode.env.openExternal(vscode.Uri.parse(url));
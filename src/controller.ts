@@ -1,7 +1,28 @@
 import * as vscode from "vscode";
+import { basename } from "path";
 import { PlutoManager } from "./plutoManager.ts";
-import { NotebookData, UpdateEvent } from "@plutojl/rainbow";
-import { formatCellOutput } from "./serializer.ts";
+import { NotebookData, UpdateEvent, Worker } from "@plutojl/rainbow";
+import {
+  formatCellOutput,
+  formatErrorOutput,
+  formatLogOutput,
+  formatProgressItem,
+  formatProgressOutput,
+  isLogOutput,
+} from "./serializer.ts";
+import {
+  PlutoLogEntry,
+  ProgressTracker,
+  isProgressLog,
+} from "./progressLogs.ts";
+import { createVsCodeCellFromPlutoCell } from "./plutoSerializer.ts";
+import { diffCellOrder } from "./cellOrderDiff.ts";
+import { planCellMoves } from "./cellMoves.ts";
+import { getCodeSyncAction } from "./codeSync.ts";
+import { withoutEphemeralCells } from "./ephemeralCells.ts";
+import { applyPatches } from "./patchBatch.ts";
+import { FrameLocation } from "./stacktrace.ts";
+import { isNotebookNewerThanServer } from "./versionCheck.ts";
 
 // --- START: Merged Interfaces ---
 
@@ -17,10 +38,29 @@ interface Patch {
 }
 // --- END: Merged Interfaces ---
 
+/**
+ * Identity of a controller in the kernel picker
+ */
+export interface PlutoKernelInfo {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+/**
+ * Resolves the PlutoManager running a notebook, e.g. per workspace folder
+ */
+export interface PlutoManagerProvider {
+  getManagerForPath(notebookPath: string): PlutoManager;
+}
+
+// Changes from Pluto to a cell edited more recently than this are conflicts
+const TYPING_TIMEOUT_MS = 2000;
+// Delay before code typed in VS Code is sent to Pluto
+const CODE_SYNC_DELAY_MS = 500;
+
 export class PlutoNotebookController {
-  readonly controllerId = "pluto-notebook-controller";
   readonly notebookType = "pluto-notebook";
-  readonly label = "Pluto Notebook";
   readonly supportedLanguages = ["julia"];
   private readonly controller: vscode.NotebookController;
   // Map to store Pluto notebook ID to VS Code URI (only used for the worker lookup)
@@ -29,6 +69,50 @@ export class PlutoNotebookController {
     new Map();
   // Renderer messaging API
   private rendererMessaging?: vscode.NotebookRendererMessaging;
+  private readonly disposables: { dispose(): void }[] = [];
+  // Workers whose updates are already forwarded to a VS Code notebook
+  private subscribedWorkers = new WeakSet<Worker>();
+  // URIs of the notebooks this controller runs
+  private notebooks = new Set<string>();
+  // Managers whose events this controller listens to
+  private watchedManagers = new WeakSet<PlutoManager>();
+  // Latest Pluto state of each notebook, by VS Code URI
+  private plutoStates = new Map<string, NotebookData>();
+  // Notebooks whose cells are being edited to match Pluto. Their change
+  // events come from us and are not sent back to Pluto.
+  private syncingNotebooks = new Set<string>();
+  // Number of VS Code cell changes on their way to Pluto, per notebook
+  private pendingCellChanges = new Map<string, number>();
+  // Notebooks whose cell order sync was postponed
+  private staleCellOrder = new Set<string>();
+  // Changes from Pluto being applied to VS Code, chained per notebook
+  private updateQueues = new Map<string, Promise<void>>();
+  // Time of the last edit made in VS Code, by cell document URI
+  private lastLocalEdits = new Map<string, number>();
+  // Code last sent to Pluto, by cell. Pluto echoes it back as a change.
+  private sentCode = new Map<CellId, string>();
+  // Executions that were started, as opposed to pending ones
+  private startedExecutions = new WeakSet<vscode.NotebookCellExecution>();
+  // Cells whose new execution has no execution order yet, per notebook
+  private unnumberedExecutions = new Map<string, CellId[]>();
+  // Pending executions of cells that left the queue in the current update
+  private dequeuedExecutions = new Map<CellId, vscode.NotebookCellExecution>();
+  // Interrupts on their way to the worker, per notebook
+  private pendingInterrupts = new Map<string, Promise<void>>();
+  // Number of executions so far, per notebook
+  private executionCounts = new Map<string, number>();
+  // Progress bars of running cells, with the outputs that show them
+  private cellProgress = new Map<
+    CellId,
+    {
+      tracker: ProgressTracker;
+      outputs: Map<string, vscode.NotebookCellOutput>;
+    }
+  >();
+  // Cell documents with an unanswered conflict prompt
+  private conflictedCells = new Set<string>();
+  // Pending code syncs to Pluto, by cell document URI
+  private codeSyncTimers = new Map<string, NodeJS.Timeout>();
 
   private executeHandler = (
     cells: vscode.NotebookCell[],
@@ -40,44 +124,131 @@ export class PlutoNotebookController {
     }
   };
 
-  private interruptHandler = async (notebook: vscode.NotebookDocument) => {
-    const worker = await this.plutoManager.getWorker(notebook.uri.fsPath);
-    if (worker) {
-      try {
-        // Find all currently running executions and mark them as failed
-        for (const [cellId, execution] of this.activeExecutions.entries()) {
-          execution.end(false, Date.now());
-          this.activeExecutions.delete(cellId);
-        }
-
-        await worker.interrupt();
-        vscode.window.showInformationMessage("Notebook execution interrupted");
-      } catch (error) {
-        this.outputChannel.appendLine(`Error interrupting notebook: ${error}`);
-        vscode.window.showErrorMessage("Failed to interrupt execution");
-      }
-    }
-  };
-
   constructor(
-    private readonly plutoManager: PlutoManager,
-    private readonly outputChannel: vscode.OutputChannel
+    private readonly managers: PlutoManagerProvider,
+    private readonly outputChannel: vscode.OutputChannel,
+    readonly kernel: PlutoKernelInfo = {
+      id: "pluto-notebook-controller",
+      label: "Pluto Notebook",
+    }
   ) {
     this.controller = vscode.notebooks.createNotebookController(
-      this.controllerId,
+      kernel.id,
       this.notebookType,
-      this.label
+      kernel.label
     );
+    this.controller.description = kernel.description;
 
     this.controller.supportedLanguages = this.supportedLanguages;
     this.controller.supportsExecutionOrder = true;
     this.controller.executeHandler = this.executeHandler;
-    this.controller.interruptHandler = this.interruptHandler;
 
     // Setup messaging bridge between controller and renderer
     this.setupMessaging();
   }
 
+  /**
+   * Get the manager running a notebook, subscribing to its events the first
+   * time it is seen
+   */
+  private managerFor(notebook: vscode.NotebookDocument): PlutoManager {
+    const manager = this.managers.getManagerForPath(notebook.uri.fsPath);
+    if (this.watchedManagers.has(manager)) {
+      return manager;
+    }
+    this.watchedManagers.add(manager);
+
+    // Forward updates of every new worker (including ones re-created after a
+    // crash restart) to its open VS Code notebook
+    this.disposables.push(
+      manager.on("workerCreated", ({ notebookPath, worker }) => {
+        const notebook = vscode.workspace.notebookDocuments.find(
+          (doc) =>
+            doc.notebookType === this.notebookType &&
+            doc.uri.fsPath === notebookPath
+        );
+        if (notebook) {
+          this.subscribeToWorker(notebook, worker);
+        }
+      }),
+      // Executions started on a crashed server will never finish
+      manager.on("serverCrashed", () => {
+        for (const notebook of vscode.workspace.notebookDocuments) {
+          if (
+            this.ownsNotebook(notebook) &&
+            this.managers.getManagerForPath(notebook.uri.fsPath) === manager
+          ) {
+            this.endExecutions(notebook);
+          }
+        }
+      })
+    );
+    return manager;
+  }
+
+  /**
+   * Mark the running executions of a notebook as failed
+   */
+  private endExecutions(notebook: vscode.NotebookDocument): void {
+    for (const cell of notebook.getCells()) {
+      const cellId = cell.metadata?.pluto_cell_id as CellId;
+      this.activeExecutions.get(cellId)?.end(false, Date.now());
+      this.activeExecutions.delete(cellId);
+    }
+  }
+
+  get controllerId(): string {
+    return this.kernel.id;
+  }
+
+  /**
+   * Fired when this controller is selected for or deselected from a notebook
+   */
+  get onDidChangeSelectedNotebooks(): vscode.Event<{
+    readonly notebook: vscode.NotebookDocument;
+    readonly selected: boolean;
+  }> {
+    return this.controller.onDidChangeSelectedNotebooks;
+  }
+
+  /**
+   * Get the manager that runs the given notebook for this controller
+   */
+  getManager(notebook: vscode.NotebookDocument): PlutoManager {
+    return this.managerFor(notebook);
+  }
+
+  /**
+   * Whether this controller runs the given notebook
+   */
+  ownsNotebook(notebook: vscode.NotebookDocument): boolean {
+    return this.notebooks.has(notebook.uri.toString());
+  }
+
+  /**
+   * Make this controller the preferred kernel of the notebook
+   */
+  setPreferred(notebook: vscode.NotebookDocument): void {
+    this.controller.updateNotebookAffinity(
+      notebook,
+      vscode.NotebookControllerAffinity.Preferred
+    );
+  }
+
+  /**
+   * Subscribe a VS Code notebook to updates from its worker (once per worker)
+   */
+  private subscribeToWorker(
+    notebook: vscode.NotebookDocument,
+    worker: Worker
+  ): void {
+    if (this.subscribedWorkers.has(worker)) {
+      return;
+    }
+    this.subscribedWorkers.add(worker);
+    worker.onUpdate(this.onPlutoNotebookUpdate(notebook));
+  }
+
   /**
    * Setup communication bridge between controller and renderer
    */
@@ -89,7 +260,13 @@ export class PlutoNotebookController {
 
     // Listen for messages from the renderer (PlutoOutput component)
     this.rendererMessaging.onDidReceiveMessage((event) => {
-      this.handleRendererMessage(event);
+      this.handleRendererMessage(event).catch((error) => {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.outputChannel.appendLine(
+          `[RENDERER MESSAGE] Failed to handle ${event.message?.type}: ${errorMessage}`
+        );
+      });
     });
   }
 
@@ -101,6 +278,10 @@ export class PlutoNotebookController {
     message: any;
   }): Promise<void> {
     const { editor, message } = event;
+    // Renderer messages reach every controller
+    if (!this.ownsNotebook(editor.notebook)) {
+      return;
+    }
 
     this.outputChannel.appendLine(
       `[RENDERER MESSAGE] Received: ${JSON.stringify(message)}`
@@ -109,7 +290,7 @@ export class PlutoNotebookController {
     // Placeholder: Handle different message types from renderer
     switch (message.type) {
       case "bond":
-        const worker = await this.plutoManager.getWorker(
+        const worker = await this.managerFor(editor.notebook).getWorker(
           editor.notebook.uri.fsPath
         );
         await worker?.setBond(message.name, message.value);
@@ -117,11 +298,58 @@ export class PlutoNotebookController {
           `[RENDERER MESSAGE] Bond set${message.name}=${message.value}!`
         );
         break;
+      case "openFrame":
+        await this.openFrameLocation(editor, message.location);
+        break;
       default:
         this.outputChannel.appendLine(`[UNKNOWN MESSAGE TYPE] ${message.type}`);
     }
   }
 
+  /**
+   * Show the cell or file a clicked stack frame points to
+   */
+  private async openFrameLocation(
+    editor: vscode.NotebookEditor,
+    location: FrameLocation
+  ): Promise<void> {
+    const position = new vscode.Position(Math.max(location.line - 1, 0), 0);
+    const selection = new vscode.Range(position, position);
+
+    if ("cellId" in location) {
+      const cell = this.getCellByPlutoId(editor.notebook, location.cellId);
+      if (!cell) {
+        vscode.window.showWarningMessage(
+          "The cell of this stack frame is not in the notebook"
+        );
+        return;
+      }
+      editor.revealRange(
+        new vscode.NotebookRange(cell.index, cell.index + 1),
+        vscode.NotebookEditorRevealType.InCenterIfOutsideViewport
+      );
+      await vscode.window.showTextDocument(cell.document, {
+        viewColumn: editor.viewColumn,
+        selection,
+      });
+    } else {
+      try {
+        await vscode.window.showTextDocument(vscode.Uri.file(location.file), {
+          selection,
+        });
+      } catch {
+        // Base and stdlib paths often point to the machine Julia was built on
+        if (location.url) {
+          await vscode.env.openExternal(vscode.Uri.parse(location.url));
+        } else {
+          vscode.window.showWarningMessage(
+            `The source of this stack frame is not available: ${location.file}`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Send a message to the renderer for a specific notebook
    */
@@ -146,6 +374,17 @@ export class PlutoNotebookController {
         .map((cell) => [cell.metadata?.pluto_cell_id as string, cell])
     );
   }
+  /**
+   * Name a cell by its position, as in `Cell 3`
+   */
+  private getCellLabel(
+    notebook: vscode.NotebookDocument,
+    plutoCellId: CellId
+  ): string | undefined {
+    const cell = this.getCellByPlutoId(notebook, plutoCellId);
+    return cell ? `Cell ${cell.index + 1}` : undefined;
+  }
+
   /**
    * Finds the VS Code cell associated with a Pluto cell ID.
    */
@@ -156,25 +395,156 @@ export class PlutoNotebookController {
     return this.getCodeCellRecord(notebook)[plutoCellId];
   }
 
-  startExecution(
+  /**
+   * Get the execution of a cell, creating a pending one for cells queued by
+   * Pluto. Its execution order is set with the rest of the update batch.
+   */
+  private getExecution(
     cellId: CellId,
     notebook: vscode.NotebookDocument
-  ): vscode.NotebookCellExecution {
+  ): vscode.NotebookCellExecution | undefined {
     let execution = this.activeExecutions.get(cellId);
     if (!execution) {
-      this.outputChannel.appendLine(
-        `[EXEC INIT] Starting initial execution for cell ${cellId}`
-      );
+      // Cells added in Pluto are inserted with the cell order, later on
       const notebookCell = this.getCellByPlutoId(notebook, cellId);
       if (!notebookCell) {
-        throw new Error("Can not determine notebook cell");
+        return undefined;
       }
+      this.outputChannel.appendLine(
+        `[EXEC INIT] Queueing execution for cell ${cellId}`
+      );
       execution = this.controller.createNotebookCellExecution(notebookCell);
       this.activeExecutions.set(cellId, execution);
+      // Without an interrupt handler, VS Code interrupts cells by cancelling
+      // their token
+      const cancelledExecution = execution;
+      execution.token.onCancellationRequested(() =>
+        this.cancelExecution(notebook, cellId, cancelledExecution)
+      );
+
+      const key = notebook.uri.toString();
+      this.unnumberedExecutions.set(key, [
+        ...(this.unnumberedExecutions.get(key) ?? []),
+        cellId,
+      ]);
+    }
+    return execution;
+  }
+
+  startExecution(
+    cellId: CellId,
+    notebook: vscode.NotebookDocument
+  ): vscode.NotebookCellExecution | undefined {
+    const execution = this.getExecution(cellId, notebook);
+    if (execution && !this.startedExecutions.has(execution)) {
+      this.startedExecutions.add(execution);
       execution.start(Date.now());
     }
     return execution;
   }
+
+  /**
+   * Interrupt a running cell. The execution stays open until Pluto reports
+   * the cell stopped, and ends with Pluto's output. Pluto also drops the
+   * cells queued after it, which then end as cancelled. A queued cell cannot
+   * be taken out of Pluto's queue on its own, so it is left to run. When the
+   * interrupt fails, the execution ends as failed.
+   */
+  private async cancelExecution(
+    notebook: vscode.NotebookDocument,
+    cellId: CellId,
+    execution: vscode.NotebookCellExecution
+  ): Promise<void> {
+    if (this.activeExecutions.get(cellId) !== execution) {
+      return;
+    }
+    if (!this.startedExecutions.has(execution)) {
+      this.outputChannel.appendLine(
+        `[EXEC CANCEL] Cell ${cellId} is queued in Pluto and cannot be cancelled on its own`
+      );
+      return;
+    }
+
+    try {
+      await this.interruptNotebook(notebook);
+    } catch (error) {
+      this.outputChannel.appendLine(`Error interrupting notebook: ${error}`);
+      vscode.window.showErrorMessage("Failed to interrupt execution");
+      // Pluto will not report the cell stopped, so do not leave it spinning
+      if (this.activeExecutions.get(cellId) === execution) {
+        execution.end(false, Date.now());
+        this.activeExecutions.delete(cellId);
+      }
+      this.startedExecutions.delete(execution);
+    }
+  }
+
+  /**
+   * Interrupt the notebook process once, even when several running cells are
+   * cancelled together
+   */
+  private interruptNotebook(notebook: vscode.NotebookDocument): Promise<void> {
+    const key = notebook.uri.toString();
+    let interrupt = this.pendingInterrupts.get(key);
+    if (!interrupt) {
+      interrupt = (async () => {
+        const worker = await this.managerFor(notebook).getWorker(
+          notebook.uri.fsPath
+        );
+        await worker?.interrupt();
+      })().finally(() => this.pendingInterrupts.delete(key));
+      this.pendingInterrupts.set(key, interrupt);
+    }
+    return interrupt;
+  }
+
+  /**
+   * Mark cells that left Pluto's queue without running as cancelled
+   */
+  private endDequeuedExecutions(): void {
+    for (const [cellId, execution] of this.dequeuedExecutions) {
+      if (
+        this.activeExecutions.get(cellId) === execution &&
+        !this.startedExecutions.has(execution)
+      ) {
+        execution.end(undefined);
+        this.activeExecutions.delete(cellId);
+      }
+    }
+    this.dequeuedExecutions.clear();
+  }
+
+  /**
+   * Number the executions created since the last update, in the order Pluto
+   * runs them (`cell_execution_order`), continuing the notebook's count
+   */
+  private numberExecutions(
+    notebook: vscode.NotebookDocument,
+    plutoNotebook: NotebookData
+  ): void {
+    const key = notebook.uri.toString();
+    const cellIds = this.unnumberedExecutions.get(key);
+    if (!cellIds) {
+      return;
+    }
+    this.unnumberedExecutions.delete(key);
+
+    const position = (cellId: CellId) => {
+      const index = plutoNotebook.cell_execution_order?.indexOf(cellId) ?? -1;
+      return index === -1 ? Infinity : index;
+    };
+    let count = this.executionCounts.get(key) ?? 0;
+    for (const cellId of [...cellIds].sort(
+      (a, b) => position(a) - position(b)
+    )) {
+      const execution = this.activeExecutions.get(cellId);
+      if (execution) {
+        execution.executionOrder = ++count;
+      }
+    }
+    this.executionCounts.set(key, count);
+  }
+
   /**
    * Handles cell-specific patch updates (execution status, output, logs).
    */
@@ -189,35 +559,80 @@ export class PlutoNotebookController {
     const currentCellState = fullNotebookState.cell_results[cellId];
     const segment2 = path[2];
 
-    // 1. Update Cell Execution Status (queued, running)
-    const isStarting = patch.value === true && segment2 === "running";
+    // A cell added in Pluto gets its state from Pluto once it is inserted
+    if (!this.getCellByPlutoId(notebook, cellId)) {
+      this.outputChannel.appendLine(
+        `[CELL RESULT] Skipping update of cell ${cellId}, not in the notebook yet`
+      );
+      return;
+    }
+
+    // 1. Update Cell Execution Status: queued cells are pending until they
+    // start running
+    const isQueued =
+      (segment2 === "queued" && patch.value === true) ||
+      (segment2 === undefined && patch.value?.queued === true);
+    const isStarting =
+      (segment2 === "running" && patch.value === true) ||
+      (segment2 === undefined && patch.value?.running === true);
 
     if (isStarting) {
-      // Start execution
-      this.startExecution(cellId, notebook);
+      const execution = this.startExecution(cellId, notebook);
+      this.cellProgress.delete(cellId);
+      // Logs of the previous run make way for the new ones
+      const cell = this.getCellByPlutoId(notebook, cellId);
+      if (cell?.outputs.some(isLogOutput)) {
+        execution?.replaceOutput(
+          cell.outputs.filter((output) => !isLogOutput(output))
+        );
+      }
+    } else if (isQueued) {
+      this.getExecution(cellId, notebook);
+    } else if (segment2 === "queued" && patch.value === false) {
+      // Pluto may have dropped the cell from its queue, e.g. after an
+      // interrupt; known once the rest of the update is applied
+      const execution = this.activeExecutions.get(cellId);
+      if (execution && !this.startedExecutions.has(execution)) {
+        this.dequeuedExecutions.set(cellId, execution);
+      }
     }
 
     // 2. Update Cell Output (only if an execution object exists)
     if (segment2 === "output") {
-      // Handle final output/result update
+      // Handle final output/result update, with all logs of the run
       const execution = this.startExecution(cellId, notebook);
+      const errored = currentCellState?.errored === true;
       if (currentCellState?.output) {
-        execution.replaceOutput([formatCellOutput(currentCellState.output)]);
+        execution?.replaceOutput([
+          errored
+            ? formatErrorOutput(currentCellState.output, (id) =>
+                this.getCellLabel(notebook, id)
+              )
+            : formatCellOutput(currentCellState.output),
+          ...this.getLogOutputs(cellId, fullNotebookState),
+        ]);
         this.outputChannel.appendLine(
           `[OUTPUT] Cell ${cellId} output updated.`
         );
       }
-      execution.end(true, Date.now());
+      execution?.end(!errored, Date.now());
       this.activeExecutions.delete(cellId);
+      this.cellProgress.delete(cellId);
       this.outputChannel.appendLine(`[EXEC END] Cell ${cellId} finished.`);
     } else if (segment2 === "logs") {
-      // Handle streaming logs (logs are added, path.length === 4, or array is cleared)
-      if (patch.op === "add" && path.length === 4 && currentCellState?.logs) {
-        const lastLog = currentCellState.logs[currentCellState.logs.length - 1];
-        if (lastLog) {
-          // Log the raw event to the output channel
-          this.outputChannel.appendLine(`[CELL LOG] ${cellId}: ${lastLog.msg}`);
-          // A proper implementation would update the cell's log output here.
+      // Stream logs added while the cell runs; the rest arrive with the output
+      const execution = this.activeExecutions.get(cellId);
+      if (patch.op === "add" && path.length === 4 && patch.value) {
+        this.outputChannel.appendLine(
+          `[CELL LOG] ${cellId}: ${patch.value.msg?.[0] ?? ""}`
+        );
+        // Progress bars are logs too and hidden along with them
+        if (execution && this.showsLogs(cellId, fullNotebookState)) {
+          if (isProgressLog(patch.value)) {
+            this.updateProgress(execution, cellId, patch.value);
+          } else {
+            execution.appendOutput(formatLogOutput(patch.value));
+          }
         }
       }
     }
@@ -231,89 +646,417 @@ export class PlutoNotebookController {
   }
 
   /**
-   * Handles cell reordering when Pluto's execution order changes.
+   * Whether the logs of a cell are shown, following Pluto's `show_logs`
+   * cell metadata (on by default)
+   */
+  private showsLogs(cellId: CellId, plutoNotebook: NotebookData): boolean {
+    return plutoNotebook.cell_inputs[cellId]?.metadata?.show_logs !== false;
+  }
+
+  private getLogOutputs(
+    cellId: CellId,
+    plutoNotebook: NotebookData
+  ): vscode.NotebookCellOutput[] {
+    if (!this.showsLogs(cellId, plutoNotebook)) {
+      return [];
+    }
+    // Progress bars are only shown while the cell runs
+    const logs = plutoNotebook.cell_results[cellId]?.logs ?? [];
+    return logs
+      .filter((log: PlutoLogEntry) => !isProgressLog(log))
+      .map(formatLogOutput);
+  }
+
+  /**
+   * Show a progress update from ProgressLogging.jl as a progress bar,
+   * updating the bar of earlier updates in place
+   */
+  private updateProgress(
+    execution: vscode.NotebookCellExecution,
+    cellId: CellId,
+    log: PlutoLogEntry
+  ): void {
+    let progress = this.cellProgress.get(cellId);
+    if (!progress) {
+      progress = { tracker: new ProgressTracker(), outputs: new Map() };
+      this.cellProgress.set(cellId, progress);
+    }
+
+    const state = progress.tracker.update(log);
+    const output = progress.outputs.get(state.id);
+    if (output) {
+      execution.replaceOutputItems(formatProgressItem(state), output);
+    } else {
+      const newOutput = formatProgressOutput(state);
+      progress.outputs.set(state.id, newOutput);
+      execution.appendOutput(newOutput);
+    }
+  }
+
+  /**
+   * Bring the VS Code cells in line with Pluto's cell order after cells were
+   * added, removed or moved in Pluto. Cells that stay keep their outputs and
+   * metadata; moved cells are re-inserted as copies.
    */
   private async _handleCellReorder(
     notebook: vscode.NotebookDocument,
     plutoNotebook: NotebookData
   ) {
-    this.outputChannel.appendLine(`  Reorder happens here`);
-    const currentVSCells = notebook.getCells();
-    const cellObject = this.getCodeCellRecord(notebook);
-    const plutoCellOrder = plutoNotebook.cell_order;
-
-    // Replca them in a bulk? drawbacks ???
-    // A cell can be removed, added or reordered
-
-    // try {
-    //   // Build a map of current VS Code cell positions
-    //   const currentCells = notebook.getCells();
-    //   const currentOrder: CellId[] = [];
-    //   const cellMap = new Map<CellId, vscode.NotebookCell>();
-
-    //   for (const cell of currentCells) {
-    //     const cellId = cell.metadata?.pluto_cell_id as string;
-    //     if (cellId) {
-    //       currentOrder.push(cellId);
-    //       cellMap.set(cellId, cell);
-    //     }
-    //   }
-
-    //   // Check if reordering is needed
-    //   const needsReorder = plutoOrder.some(
-    //     (id, idx) => currentOrder[idx] !== id
-    //   );
-    //   if (!needsReorder) {
-    //     this.outputChannel.appendLine(
-    //       `[CellReorder] Cell order already matches Pluto order`
-    //     );
-    //     return;
-    //   }
-
-    //   this.outputChannel.appendLine(
-    //     `[CellReorder] Reordering cells to match Pluto order`
-    //   );
-    //   this.outputChannel.appendLine(`  Current: ${currentOrder.join(", ")}`);
-    //   this.outputChannel.appendLine(`  Pluto:   ${plutoOrder.join(", ")}`);
-
-    //   // Build the edit to reorder cells
-    //   const edit = new vscode.WorkspaceEdit();
-    //   const cellsToMove: vscode.NotebookCellData[] = [];
-
-    //   // Collect cells in the new order
-    //   for (const cellId of plutoOrder) {
-    //     const cell = cellMap.get(cellId);
-    //     if (cell) {
-    //       const cellData = new vscode.NotebookCellData(
-    //         cell.kind,
-    //         cell.document.getText(),
-    //         cell.document.languageId
-    //       );
-    //       cellData.metadata = cell.metadata;
-    //       cellData.outputs = [...cell.outputs]; // Create mutable copy
-    //       cellsToMove.push(cellData);
-    //     }
-    //   }
-
-    //   // Replace all cells with the reordered cells
-    //   edit.set(notebook.uri, [
-    //     vscode.NotebookEdit.replaceCells(
-    //       new vscode.NotebookRange(0, currentCells.length),
-    //       cellsToMove
-    //     ),
-    //   ]);
-
-    //   await vscode.workspace.applyEdit(edit);
-    //   this.outputChannel.appendLine(
-    //     `[CellReorder] Cells reordered successfully`
-    //   );
-    // } catch (error) {
-    //   const errorMessage =
-    //     error instanceof Error ? error.message : String(error);
-    //   this.outputChannel.appendLine(
-    //     `[CellReorder] Failed to reorder cells: ${errorMessage}`
-    //   );
-    // }
+    const key = notebook.uri.toString();
+    const cells = notebook.getCells();
+    const currentOrder = cells.map(
+      (cell) => cell.metadata?.pluto_cell_id as CellId | undefined
+    );
+    // Wait for our own edits and for cells added in VS Code to get their
+    // Pluto ID, then sync against the latest state
+    if (
+      this.syncingNotebooks.has(key) ||
+      this.pendingCellChanges.has(key) ||
+      currentOrder.some((cellId) => !cellId)
+    ) {
+      this.staleCellOrder.add(key);
+      return;
+    }
+    this.staleCellOrder.delete(key);
+
+    const plutoManager = this.managerFor(notebook);
+    const edits = diffCellOrder(
+      currentOrder as CellId[],
+      withoutEphemeralCells(plutoNotebook.cell_order, (cellId) =>
+        plutoManager.isEphemeralCell(cellId)
+      )
+    );
+    if (edits.deletions.length === 0 && edits.insertions.length === 0) {
+      return;
+    }
+
+    const cellsById = this.getCodeCellRecord(notebook);
+    const insertions = edits.insertions.map(({ index, cellIds }) =>
+      vscode.NotebookEdit.insertCells(
+        index,
+        cellIds
+          .map((cellId) =>
+            cellsById[cellId]
+              ? copyCellData(cellsById[cellId])
+              : createVsCodeCellFromPlutoCell(plutoNotebook, cellId)
+          )
+          .filter((cell): cell is vscode.NotebookCellData => !!cell)
+      )
+    );
+
+    // Executions of removed cells can no longer report to them
+    for (const { index, count } of edits.deletions) {
+      for (const cell of cells.slice(index, index + count)) {
+        const cellId = cell.metadata?.pluto_cell_id as CellId;
+        this.activeExecutions.get(cellId)?.end(undefined, Date.now());
+        this.activeExecutions.delete(cellId);
+      }
+    }
+
+    this.syncingNotebooks.add(key);
+    try {
+      const deletion = new vscode.WorkspaceEdit();
+      deletion.set(
+        notebook.uri,
+        edits.deletions.map(({ index, count }) =>
+          vscode.NotebookEdit.deleteCells(
+            new vscode.NotebookRange(index, index + count)
+          )
+        )
+      );
+      const insertion = new vscode.WorkspaceEdit();
+      insertion.set(notebook.uri, insertions);
+
+      await vscode.workspace.applyEdit(deletion);
+      await vscode.workspace.applyEdit(insertion);
+      this.outputChannel.appendLine(
+        `[CellReorder] Applied ${edits.deletions.length} deletion(s) and ${edits.insertions.length} insertion(s)`
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `[CellReorder] Failed to reorder cells: ${errorMessage}`
+      );
+    } finally {
+      this.syncingNotebooks.delete(key);
+    }
+    this.syncStaleCellOrder(notebook);
+  }
+
+  /**
+   * Run a cell order sync that was postponed while the cells were changing
+   */
+  private syncStaleCellOrder(notebook: vscode.NotebookDocument): void {
+    const key = notebook.uri.toString();
+    const plutoNotebook = this.plutoStates.get(key);
+    if (this.staleCellOrder.has(key) && plutoNotebook) {
+      this.enqueueUpdate(notebook, () =>
+        this._handleCellReorder(notebook, plutoNotebook)
+      );
+    }
+  }
+
+  /**
+   * Apply a change from Pluto once the ones before it are done, so edits to
+   * the VS Code notebook do not interleave
+   */
+  private enqueueUpdate(
+    notebook: vscode.NotebookDocument,
+    apply: () => Promise<void>
+  ): void {
+    const key = notebook.uri.toString();
+    const queued = (this.updateQueues.get(key) ?? Promise.resolve())
+      .then(apply)
+      .catch((error) => {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.outputChannel.appendLine(
+          `Failed to apply change from Pluto: ${errorMessage}`
+        );
+      })
+      .finally(() => {
+        if (this.updateQueues.get(key) === queued) {
+          this.updateQueues.delete(key);
+        }
+      });
+    this.updateQueues.set(key, queued);
+  }
+
+  /**
+   * Apply code, metadata and folding changes made in Pluto (e.g. in the
+   * browser or through MCP) to the matching VS Code cell
+   */
+  private async _handleCellInputPatch(
+    notebook: vscode.NotebookDocument,
+    patch: Patch,
+    plutoNotebook: NotebookData
+  ) {
+    const [, cellId, field] = patch.path as [string, CellId, string?];
+    const cellInput = plutoNotebook.cell_inputs[cellId];
+    const cell = this.getCellByPlutoId(notebook, cellId);
+    // Added and removed cells are handled with the cell order
+    if (!field || !cellInput || !cell) {
+      return;
+    }
+
+    switch (field) {
+      case "code": {
+        const code = cellInput.code ?? "";
+        if (this.sentCode.get(cellId) === code) {
+          // Our own change coming back, the cell may have been edited since
+          break;
+        }
+        this.sentCode.delete(cellId);
+        await this.syncCellCode(notebook, cell, code);
+        break;
+      }
+      case "metadata":
+        await this.applyPlutoEdit(notebook, (edit) =>
+          edit.set(notebook.uri, [
+            vscode.NotebookEdit.updateCellMetadata(cell.index, {
+              ...cell.metadata,
+              ...cellInput.metadata,
+              pluto_cell_id: cellId,
+            }),
+          ])
+        );
+        break;
+      case "code_folded":
+        await vscode.commands.executeCommand(
+          cellInput.code_folded
+            ? "notebook.cell.collapseCellInput"
+            : "notebook.cell.expandCellInput",
+          {
+            ranges: [{ start: cell.index, end: cell.index + 1 }],
+            document: notebook.uri,
+          }
+        );
+        break;
+      default:
+        this.outputChannel.appendLine(
+          `[UNHANDLED] cell_input ${patch.path.join(".")} action ${patch.op}`
+        );
+    }
+  }
+
+  /**
+   * Replace the code of a cell with the code from Pluto. While the user is
+   * typing in the cell, ask which version to keep instead of overwriting.
+   */
+  private async syncCellCode(
+    notebook: vscode.NotebookDocument,
+    cell: vscode.NotebookCell,
+    code: string
+  ): Promise<void> {
+    if (cell.document.getText() === code) {
+      return;
+    }
+
+    const documentKey = cell.document.uri.toString();
+    const lastEdit = this.lastLocalEdits.get(documentKey) ?? 0;
+    if (Date.now() - lastEdit < TYPING_TIMEOUT_MS) {
+      // The prompt is not awaited, so later changes are not held up by it
+      if (!this.conflictedCells.has(documentKey)) {
+        void this.resolveCodeConflict(notebook, cell);
+      }
+      return;
+    }
+
+    await this.replaceCellCode(notebook, cell, code);
+  }
+
+  /**
+   * Ask whether to keep the code typed in VS Code or Pluto's version of a
+   * cell, and apply Pluto's latest code if chosen
+   */
+  private async resolveCodeConflict(
+    notebook: vscode.NotebookDocument,
+    cell: vscode.NotebookCell
+  ): Promise<void> {
+    const documentKey = cell.document.uri.toString();
+    this.conflictedCells.add(documentKey);
+    this.outputChannel.appendLine(
+      `[CellInput] Conflicting edit for cell ${cell.metadata?.pluto_cell_id}`
+    );
+    const choice = await vscode.window.showWarningMessage(
+      `Cell ${cell.index + 1} was changed in Pluto while you were editing it.`,
+      "Use Pluto's Version",
+      "Keep Mine"
+    );
+    this.conflictedCells.delete(documentKey);
+    if (choice !== "Use Pluto's Version") {
+      // Code typed meanwhile was held back while the prompt was open
+      this.scheduleCodeSync(notebook, cell);
+      return;
+    }
+
+    this.enqueueUpdate(notebook, async () => {
+      // Pluto may have changed the code again meanwhile
+      const cellId = cell.metadata?.pluto_cell_id as CellId;
+      const code = this.plutoStates.get(notebook.uri.toString())?.cell_inputs[
+        cellId
+      ]?.code;
+      if (code !== undefined && cell.index !== -1) {
+        await this.replaceCellCode(notebook, cell, code);
+      }
+    });
+  }
+
+  /**
+   * Replace the code of a cell with Pluto's, without sending it back
+   */
+  private async replaceCellCode(
+    notebook: vscode.NotebookDocument,
+    cell: vscode.NotebookCell,
+    code: string
+  ): Promise<void> {
+    await this.applyPlutoEdit(notebook, (edit) =>
+      edit.replace(
+        cell.document.uri,
+        new vscode.Range(0, 0, cell.document.lineCount, 0),
+        code
+      )
+    );
+  }
+
+  /**
+   * Apply an edit that mirrors a change made in Pluto, without sending it
+   * back to Pluto
+   */
+  private async applyPlutoEdit(
+    notebook: vscode.NotebookDocument,
+    build: (edit: vscode.WorkspaceEdit) => void
+  ): Promise<void> {
+    const key = notebook.uri.toString();
+    const edit = new vscode.WorkspaceEdit();
+    build(edit);
+    this.syncingNotebooks.add(key);
+    try {
+      await vscode.workspace.applyEdit(edit);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Failed to apply change from Pluto: ${errorMessage}`
+      );
+    } finally {
+      this.syncingNotebooks.delete(key);
+    }
+  }
+
+  /**
+   * Apply a single patch of an update from the Pluto worker
+   */
+  private applyPlutoPatch(
+    notebook: vscode.NotebookDocument,
+    patch: Patch,
+    fullNotebookState: NotebookData
+  ): void {
+    const path = patch.path;
+    const [action, ...rest] = path;
+    // Temporary cells, e.g. from MCP execute_code, stay out of VS Code
+    if (
+      (action === "cell_input" || action === "cell_results") &&
+      this.managerFor(notebook).isEphemeralCell(rest[0] as string)
+    ) {
+      return;
+    }
+    switch (action) {
+      case "bonds":
+        // TODO here we do bound send to the renderers
+        const ref = rest[0];
+        const value = patch.op === "add" ? patch.value?.value : patch.value;
+        this.outputChannel.appendLine(
+          `[BONDS] ref = ${ref} value = ${value} action ${patch.op}`
+        );
+        break;
+      case "cell_input":
+        this.enqueueUpdate(notebook, () =>
+          this._handleCellInputPatch(notebook, patch, fullNotebookState)
+        );
+        break;
+      case "cell_results":
+        this._handleCellPatch(notebook, patch, fullNotebookState);
+        break;
+      case "process_status":
+        this.outputChannel.appendLine(
+          `[UpdateKernelStatus] Kernel process status changed to: ${patch.value}`
+        );
+        break;
+      case "nbpkg":
+        this.outputChannel.appendLine(
+          `[LogInternal] Package environment setting changed: ${rest.join(
+            "."
+          )} = ${patch.value}`
+        );
+        break;
+      case "status_tree":
+        this.outputChannel.appendLine(
+          `[LogInternal] Internal status updated: /${path.join("/")}`
+        );
+        break;
+      case "cell_order":
+        if (patch.op === "replace") {
+          // A cell can be removed, added or reordered
+          this.enqueueUpdate(notebook, () =>
+            this._handleCellReorder(notebook, fullNotebookState)
+          );
+        } else {
+          this.outputChannel.appendLine(
+            `[LogInternal] Cell dependencies updated: ${
+              patch.op
+            } on cell ${rest.join(".")}`
+          );
+        }
+        break;
+      case "last_save_time":
+        break;
+      default:
+        this.outputChannel.appendLine(
+          `[UNHANDLED]  ${patch.path.join(".")} action ${patch.op}`
+        );
+    }
   }
 
   /**
@@ -324,6 +1067,9 @@ export class PlutoNotebookController {
       try {
         const patches = (event.data as any)?.patches as Patch[] | undefined;
         const fullNotebookState = event.notebook;
+        if (fullNotebookState) {
+          this.plutoStates.set(notebook.uri.toString(), fullNotebookState);
+        }
 
         if (!patches || !fullNotebookState) {
           this.outputChannel.appendLine(
@@ -332,69 +1078,21 @@ export class PlutoNotebookController {
           return;
         }
 
-        for (const patch of patches) {
-          const path = patch.path;
-          const [action, ...rest] = path;
-          switch (action) {
-            case "bonds":
-              // TODO here we do bound send to the renderers
-              const ref = rest[0];
-              const value =
-                patch.op === "add" ? patch.value?.value : patch.value;
-              this.outputChannel.appendLine(
-                `[BONDS] ref = ${ref} value = ${value} action ${patch.op}`
-              );
-              break;
-            case "cell_input":
-              if (rest[1] === "code" && patch.op === "replace") {
-                // TODO here we need to update the code for the cell
-              }
-
-              this.outputChannel.appendLine(
-                `[UNHANDLED] cell_input ${patch.path.join(".")} action ${
-                  patch.op
-                }`
-              );
-              break;
-            case "cell_results":
-              this._handleCellPatch(notebook, patch, fullNotebookState);
-              break;
-            case "process_status":
-              this.outputChannel.appendLine(
-                `[UpdateKernelStatus] Kernel process status changed to: ${patch.value}`
-              );
-              break;
-            case "nbpkg":
-              this.outputChannel.appendLine(
-                `[LogInternal] Package environment setting changed: ${rest.join(
-                  "."
-                )} = ${patch.value}`
-              );
-              break;
-            case "status_tree":
-              this.outputChannel.appendLine(
-                `[LogInternal] Internal status updated: /${path.join("/")}`
-              );
-            case "cell_order":
-              if (patch.op === "replace") {
-                // A cell can be removed, added or reordered
-                this._handleCellReorder(notebook, fullNotebookState);
-              } else {
-                this.outputChannel.appendLine(
-                  `[LogInternal] Cell dependencies updated: ${
-                    patch.op
-                  } on cell ${rest.join(".")}`
-                );
-              }
-              break;
-            case "last_save_time":
-              break;
-            default:
-              this.outputChannel.appendLine(
-                `[UNHANDLED]  ${patch.path.join(".")} action ${patch.op}`
-              );
+        // A patch that fails, e.g. for a cell VS Code does not show yet,
+        // must not drop the rest of the batch
+        applyPatches(
+          patches,
+          (patch) => this.applyPlutoPatch(notebook, patch, fullNotebookState),
+          (patch, error) => {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            this.outputChannel.appendLine(
+              `Failed to apply patch ${patch.path.join(".")}: ${errorMessage}`
+            );
           }
-        }
+        );
+        this.endDequeuedExecutions();
+        this.numberExecutions(notebook, fullNotebookState);
       } catch (e: any) {
         this.outputChannel.appendLine(
           `Failed to process patch update: ${e.message}`
@@ -405,19 +1103,22 @@ export class PlutoNotebookController {
 
   async registerNotebookDocument(notebook: vscode.NotebookDocument) {
     if (notebook.notebookType === "pluto-notebook") {
+      this.notebooks.add(notebook.uri.toString());
       this.outputChannel.appendLine(`Notebook opened: ${notebook.uri.fsPath}`);
 
       // Only initialize if server is running
-      if (this.plutoManager.isRunning()) {
+      const plutoManager = this.managerFor(notebook);
+      if (plutoManager.isConnected()) {
         try {
-          const worker = await this.plutoManager.getWorker(notebook.uri.fsPath);
+          const worker = await plutoManager.getWorker(notebook.uri.fsPath);
           if (worker) {
             this.outputChannel.appendLine(
               `Worker initialized for: ${notebook.uri.fsPath}`
             );
+            this.checkNotebookVersion(notebook);
 
             // Subscribe to updates from this worker
-            worker.onUpdate(this.onPlutoNotebookUpdate(notebook));
+            this.subscribeToWorker(notebook, worker);
           }
         } catch (error) {
           const errorMessage =
@@ -437,6 +1138,58 @@ export class PlutoNotebookController {
     }
   }
 
+  /**
+   * Release the worker of a notebook that was closed in the editor
+   */
+  async unregisterNotebookDocument(notebook: vscode.NotebookDocument) {
+    if (notebook.notebookType !== this.notebookType) {
+      return;
+    }
+    this.notebooks.delete(notebook.uri.toString());
+    this.plutoStates.delete(notebook.uri.toString());
+    this.unnumberedExecutions.delete(notebook.uri.toString());
+    this.executionCounts.delete(notebook.uri.toString());
+    this.staleCellOrder.delete(notebook.uri.toString());
+
+    for (const cell of notebook.getCells()) {
+      const cellId = cell.metadata?.pluto_cell_id as CellId;
+      this.activeExecutions.delete(cellId);
+      this.sentCode.delete(cellId);
+      this.lastLocalEdits.delete(cell.document.uri.toString());
+      this.cancelCodeSync(cell);
+    }
+
+    try {
+      await this.managerFor(notebook).releaseNotebook(notebook.uri.fsPath);
+      this.outputChannel.appendLine(`Notebook closed: ${notebook.uri.fsPath}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Failed to release worker: ${errorMessage}`
+      );
+    }
+  }
+
+  /**
+   * Warn when the notebook was written by a newer Pluto than the server runs,
+   * since it may use features the server does not know about
+   */
+  private checkNotebookVersion(notebook: vscode.NotebookDocument): void {
+    const notebookVersion = notebook.metadata?.pluto_version as
+      string | undefined;
+    const serverVersion = this.managerFor(notebook).getServerVersions()?.pluto;
+    if (
+      notebookVersion &&
+      serverVersion &&
+      isNotebookNewerThanServer(notebookVersion, serverVersion)
+    ) {
+      vscode.window.showWarningMessage(
+        `${basename(notebook.uri.fsPath)} was saved with Pluto ${notebookVersion}, which is newer than the server's Pluto ${serverVersion}. Update Pluto to avoid errors.`
+      );
+    }
+  }
+
   /**
    * Handle added cells in the notebook
    */
@@ -444,7 +1197,8 @@ export class PlutoNotebookController {
     notebook: vscode.NotebookDocument,
     addedCells: readonly vscode.NotebookCell[]
   ): Promise<void> {
-    const worker = await this.plutoManager.getWorker(notebook.uri.fsPath);
+    const plutoManager = this.managerFor(notebook);
+    const worker = await plutoManager.getWorker(notebook.uri.fsPath);
     if (!worker) {
       this.outputChannel.appendLine("No worker available for notebook");
       return;
@@ -457,7 +1211,7 @@ export class PlutoNotebookController {
         this.outputChannel.appendLine(`Adding new cell at index ${cellIndex}`);
 
         // Add cell to worker and get the assigned cell ID
-        const cellId = await this.plutoManager.addCell(worker, cellIndex, code);
+        const cellId = await plutoManager.addCell(worker, cellIndex, code);
 
         this.outputChannel.appendLine(`Cell added with ID: ${cellId}`);
 
@@ -495,7 +1249,8 @@ export class PlutoNotebookController {
     notebook: vscode.NotebookDocument,
     removedCells: readonly vscode.NotebookCell[]
   ): Promise<void> {
-    const worker = await this.plutoManager.getWorker(notebook.uri.fsPath);
+    const plutoManager = this.managerFor(notebook);
+    const worker = await plutoManager.getWorker(notebook.uri.fsPath);
     if (!worker) {
       this.outputChannel.appendLine("No worker available for notebook");
       return;
@@ -514,7 +1269,7 @@ export class PlutoNotebookController {
         this.outputChannel.appendLine(`Deleting cell with ID: ${cellId}`);
 
         // Remove cell from worker
-        await this.plutoManager.deleteCell(worker, cellId);
+        await plutoManager.deleteCell(worker, cellId);
 
         // Clean up any active execution
         this.activeExecutions.delete(cellId);
@@ -531,6 +1286,125 @@ export class PlutoNotebookController {
     }
   }
 
+  /**
+   * Handle cells moved in the notebook, keeping their Pluto cell IDs
+   */
+  private async handleVscodeMovedCells(
+    notebook: vscode.NotebookDocument,
+    movedCells: readonly vscode.NotebookCell[]
+  ): Promise<void> {
+    if (movedCells.length === 0) {
+      return;
+    }
+    const plutoManager = this.managerFor(notebook);
+    const worker = await plutoManager.getWorker(notebook.uri.fsPath);
+    if (!worker) {
+      this.outputChannel.appendLine("No worker available for notebook");
+      return;
+    }
+    const plutoNotebook = this.plutoStates.get(notebook.uri.toString());
+    if (!plutoNotebook) {
+      this.outputChannel.appendLine(
+        "No Pluto cell order known yet, cannot move cells"
+      );
+      return;
+    }
+    // Pluto counts the target index in its order from before each move
+    const moves = planCellMoves(
+      withoutEphemeralCells(plutoNotebook.cell_order, (cellId) =>
+        plutoManager.isEphemeralCell(cellId)
+      ),
+      notebook
+        .getCells()
+        .map((cell) => cell.metadata?.pluto_cell_id as string | undefined)
+        .filter((cellId): cellId is string => !!cellId),
+      new Set(movedCells.map((cell) => cell.metadata.pluto_cell_id as string))
+    );
+    for (const { cellId, index } of moves) {
+      // A running execution belonged to the cell before the move; the next
+      // update starts one on the moved cell
+      this.activeExecutions.get(cellId as CellId)?.end(undefined, Date.now());
+      this.activeExecutions.delete(cellId as CellId);
+      try {
+        this.outputChannel.appendLine(
+          `Moving cell ${cellId} to index ${index}`
+        );
+        await plutoManager.moveCell(worker, cellId, index);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.outputChannel.appendLine(`Failed to move cell: ${errorMessage}`);
+        vscode.window.showErrorMessage(
+          `Failed to move cell in Pluto notebook: ${errorMessage}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Send the code of a cell to Pluto once the user stopped typing, so the
+   * Pluto session shows what is in the editor. The cell is not run.
+   */
+  private scheduleCodeSync(
+    notebook: vscode.NotebookDocument,
+    cell: vscode.NotebookCell
+  ): void {
+    const documentKey = cell.document.uri.toString();
+    clearTimeout(this.codeSyncTimers.get(documentKey));
+    this.codeSyncTimers.set(
+      documentKey,
+      setTimeout(() => {
+        this.codeSyncTimers.delete(documentKey);
+        void this.syncCodeToPluto(notebook, cell);
+      }, CODE_SYNC_DELAY_MS)
+    );
+  }
+
+  private cancelCodeSync(cell: vscode.NotebookCell): void {
+    const documentKey = cell.document.uri.toString();
+    clearTimeout(this.codeSyncTimers.get(documentKey));
+    this.codeSyncTimers.delete(documentKey);
+  }
+
+  private async syncCodeToPluto(
+    notebook: vscode.NotebookDocument,
+    cell: vscode.NotebookCell
+  ): Promise<void> {
+    const cellId = cell.metadata?.pluto_cell_id as CellId | undefined;
+    // Cells are removed or still waiting for their Pluto ID
+    if (!cellId || cell.index === -1) {
+      return;
+    }
+
+    const code = cell.document.getText();
+    const plutoCode = this.plutoStates.get(notebook.uri.toString())
+      ?.cell_inputs[cellId]?.code;
+    // A conflict prompt reschedules the sync once it is answered
+    const action = getCodeSyncAction(
+      code,
+      plutoCode,
+      this.conflictedCells.has(cell.document.uri.toString())
+    );
+    if (action !== "send") {
+      return;
+    }
+
+    try {
+      const plutoManager = this.managerFor(notebook);
+      const worker = await plutoManager.getWorker(notebook.uri.fsPath);
+      if (worker) {
+        this.sentCode.set(cellId, code);
+        await plutoManager.updateCellCode(worker, cellId, code);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Failed to sync code of cell ${cellId}: ${errorMessage}`
+      );
+    }
+  }
+
   /**
    * Handle notebook document changes (cell additions/deletions)
    */
@@ -539,34 +1413,94 @@ export class PlutoNotebookController {
   ): Promise<void> {
     const notebook = event.notebook;
 
-    if (notebook.notebookType !== "pluto-notebook") {
+    if (
+      notebook.notebookType !== "pluto-notebook" ||
+      !this.ownsNotebook(notebook) ||
+      this.syncingNotebooks.has(notebook.uri.toString())
+    ) {
       return;
     }
 
-    if (!this.plutoManager.isRunning()) {
+    if (!this.managerFor(notebook).isConnected()) {
       this.outputChannel.appendLine(
         "Server not running - skipping cell change handling"
       );
       return;
     }
 
-    // Process cell changes
+    // Process cell changes. Metadata and output changes are handled by the
+    // worker through its update events.
     for (const change of event.cellChanges) {
-      // Handle cell metadata or output changes - we don't need to do anything here
-      // The worker will handle these through its update events
+      if (change.document) {
+        this.lastLocalEdits.set(
+          change.cell.document.uri.toString(),
+          Date.now()
+        );
+        this.scheduleCodeSync(notebook, change.cell);
+      }
     }
 
-    // Process content changes (cell additions/deletions)
-    for (const change of event.contentChanges) {
-      await this.handleVscodeAddedCells(notebook, change.addedCells);
-      await this.handleVscodeRemovedCells(notebook, change.removedCells);
+    // Process content changes (cell additions/deletions). VS Code reports a
+    // moved cell as removed and added again with the same Pluto ID.
+    if (event.contentChanges.length === 0) {
+      return;
+    }
+    const addedCells = event.contentChanges.flatMap(
+      (change) => change.addedCells
+    );
+    const removedCells = event.contentChanges.flatMap(
+      (change) => change.removedCells
+    );
+    const removedIds = new Set(
+      removedCells.map((cell) => cell.metadata?.pluto_cell_id as CellId)
+    );
+    const movedCells = addedCells.filter(
+      (cell) =>
+        cell.metadata?.pluto_cell_id &&
+        removedIds.has(cell.metadata.pluto_cell_id)
+    );
+    const movedIds = new Set(
+      movedCells.map((cell) => cell.metadata.pluto_cell_id as CellId)
+    );
+    const isMoved = (cell: vscode.NotebookCell) =>
+      movedIds.has(cell.metadata?.pluto_cell_id);
+
+    const key = notebook.uri.toString();
+    this.pendingCellChanges.set(
+      key,
+      (this.pendingCellChanges.get(key) ?? 0) + 1
+    );
+    try {
+      await this.handleVscodeMovedCells(notebook, movedCells);
+      await this.handleVscodeAddedCells(
+        notebook,
+        addedCells.filter((cell) => !isMoved(cell))
+      );
+      await this.handleVscodeRemovedCells(
+        notebook,
+        removedCells.filter((cell) => !isMoved(cell))
+      );
+    } finally {
+      const pending = (this.pendingCellChanges.get(key) ?? 1) - 1;
+      if (pending > 0) {
+        this.pendingCellChanges.set(key, pending);
+      } else {
+        this.pendingCellChanges.delete(key);
+      }
     }
+    this.syncStaleCellOrder(notebook);
   }
 
   dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    for (const timer of this.codeSyncTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.codeSyncTimers.clear();
     this.controller.dispose();
     // NotebookRendererMessaging doesn't have a dispose method
-    this.plutoManager.dispose();
   }
 
   private async _doExecution(
@@ -583,17 +1517,21 @@ export class PlutoNotebookController {
       return;
     }
 
-    // Ensure there is at least an initial execution object for this cell
-    let execution = this.startExecution(cellId, notebook);
+    // Running the cell sends its code anyway
+    this.cancelCodeSync(cell);
+
+    // Ensure there is at least a pending execution object for this cell
+    let execution = this.getExecution(cellId, notebook);
 
     try {
-      if (!this.plutoManager.isRunning()) {
+      const plutoManager = this.managerFor(notebook);
+      if (!plutoManager.isConnected()) {
         throw new Error(
           "Pluto server is not running. Please start the server first."
         );
       }
 
-      const worker = await this.plutoManager.getWorker(notebook.uri.fsPath);
+      const worker = await plutoManager.getWorker(notebook.uri.fsPath);
 
       if (!worker) {
         throw new Error(`Failed to initialize Pluto worker.`);
@@ -603,7 +1541,8 @@ export class PlutoNotebookController {
       const code = cell.document.getText();
 
       // The worker will handle the execution and stream updates back via onNotebookUpdate.
-      await this.plutoManager.executeCell(worker, cellId, code);
+      this.sentCode.set(cellId, code);
+      await plutoManager.executeCell(worker, cellId, code);
 
       // We do NOT call execution.end() here. The `onNotebookUpdate` listener
       // will handle `execution.end()` when it receives the final 'running: false' patch.
@@ -630,3 +1569,18 @@ export class PlutoNotebookController {
     }
   }
 }
+
+/**
+ * Copy a cell with its outputs and metadata, to re-insert it elsewhere
+ */
+function copyCellData(cell: vscode.NotebookCell): vscode.NotebookCellData {
+  const cellData = new vscode.NotebookCellData(
+    cell.kind,
+    cell.document.getText(),
+    cell.document.languageId
+  );
+  cellData.metadata = { ...cell.metadata };
+  cellData.outputs = [...cell.outputs];
+  cellData.executionSummary = cell.executionSummary;
+  return cellData;
+}
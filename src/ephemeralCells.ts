@@ -0,0 +1,43 @@
+/**
+ * A temporary cell run in a notebook, e.g. for MCP `execute_code` or the
+ * process environment setup. Its ID is only known once the cell finished,
+ * so it is recognized as the cell that showed up since the run started.
+ */
+export interface EphemeralRun {
+  /** The cells of the notebook when the run started, if known */
+  before?: ReadonlySet<string>;
+  /** The temporary cell, once it appeared in the cell order */
+  cellId?: string;
+}
+
+/**
+ * Give each run that has no cell yet the first new cell in the order. The
+ * temporary cell is added at the top, so cells added elsewhere meanwhile are
+ * left alone. Without the order from before the run, nothing is claimed.
+ */
+export function claimEphemeralCells(
+  runs: EphemeralRun[],
+  cellOrder: readonly string[],
+  ephemeralCells: Set<string>
+): void {
+  for (const run of runs) {
+    if (run.cellId || !run.before) {
+      continue;
+    }
+    const first = cellOrder.find((cellId) => !ephemeralCells.has(cellId));
+    if (first !== undefined && !run.before.has(first)) {
+      run.cellId = first;
+      ephemeralCells.add(first);
+    }
+  }
+}
+
+/**
+ * The cell order as VS Code should show it, without temporary cells
+ */
+export function withoutEphemeralCells<T extends string>(
+  cellOrder: readonly T[],
+  isEphemeral: (cellId: T) => boolean
+): T[] {
+  return cellOrder.filter((cellId) => !isEphemeral(cellId));
+}
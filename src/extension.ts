@@ -5,7 +5,22 @@ import {
   registerAllCommands,
   initializePlutoServer,
 } from "./commands/index.ts";
-import { getSharedPlutoManager } from "./shared/plutoManagerInstance.ts";
+import {
+  PlutoManagerRegistry,
+  getSharedPlutoManager,
+} from "./shared/plutoManagerInstance.ts";
+import {
+  readJuliaServerOptions,
+  readNotebookProcessSettings,
+  readServerConnection,
+} from "./shared/serverSettings.ts";
+import { PlutoManager } from "./plutoManager.ts";
+import { PlutoKernels, getKernelId } from "./kernels.ts";
+import {
+  JuliaInstallation,
+  getInstallationLabel,
+} from "./juliaInstallations.ts";
+import { JuliaServerOptions } from "./serverConfig.ts";
 import {
   initializeMCPServer,
   startMCPServer,
@@ -13,6 +28,10 @@ import {
   cleanupMCPServer,
 } from "./mcp-server-http.ts";
 
+// Servers of Julia installation kernels prefer ports from the configured one
+// plus this offset, away from the ports of the workspace folders' servers
+const INSTALLATION_PORT_OFFSET = 100;
+
 export async function activate(context: vscode.ExtensionContext) {
   // Create output channels
   const serverOutputChannel = vscode.window.createOutputChannel("Pluto Server");
@@ -25,18 +44,104 @@ export async function activate(context: vscode.ExtensionContext) {
   // Get port from configuration
   const config = vscode.workspace.getConfiguration("pluto-notebook");
   const plutoPort = config.get<number>("port", 1234);
+  const autoSelectPort = config.get<boolean>("autoSelectPort", true);
   const mcpPort = config.get<number>("mcpPort", 3100);
   const autoStartMcp = config.get<boolean>("autoStartMcpServer", true);
 
+  // Managers of the controllers for detected Julia installations
+  const installationManagers = new Map<PlutoManager, JuliaInstallation>();
+
+  // The first workspace folder (and notebooks outside any folder) use the
+  // shared manager, configured with that folder's settings
+  const defaultScope = vscode.workspace.workspaceFolders?.[0]?.uri;
+
   // Initialize shared Pluto Manager
-  const plutoManager = getSharedPlutoManager(plutoPort, {
-    appendLine: serverOutputChannel.appendLine.bind(serverOutputChannel),
-    showWarningMessage: vscode.window.showWarningMessage,
-  });
+  const plutoManager = getSharedPlutoManager(
+    plutoPort,
+    {
+      appendLine: serverOutputChannel.appendLine.bind(serverOutputChannel),
+      showWarningMessage: vscode.window.showWarningMessage,
+    },
+    readJuliaServerOptions(defaultScope)
+  );
   context.subscriptions.push(plutoManager);
+  plutoManager.setPreferredPort(plutoPort, autoSelectPort);
+  applyManagerSettings(plutoManager, defaultScope);
+  applyServerConnection(plutoManager, defaultScope);
+  context.subscriptions.push(
+    reportServerErrors(plutoManager, serverOutputChannel)
+  );
+
+  // Every other workspace folder gets its own server with its own settings,
+  // started when a notebook of the folder is first used
+  const managers = new PlutoManagerRegistry(
+    plutoManager,
+    (notebookPath) => {
+      const folder = vscode.workspace.getWorkspaceFolder(
+        vscode.Uri.file(notebookPath)
+      );
+      return folder && folder.index > 0 ? folder.uri.fsPath : undefined;
+    },
+    (folder) => {
+      const scope = vscode.Uri.file(folder);
+      const name = vscode.workspace.getWorkspaceFolder(scope)?.name ?? folder;
+      const manager = new PlutoManager(
+        getFolderPort(scope),
+        {
+          appendLine: (message) =>
+            serverOutputChannel.appendLine(`[${name}] ${message}`),
+          showWarningMessage: vscode.window.showWarningMessage,
+        },
+        readJuliaServerOptions(scope)
+      );
+      applyFolderSettings(manager, scope);
+      // Disposing the manager, e.g. when its folder is removed, also removes
+      // the listener
+      reportServerErrors(manager, serverOutputChannel);
+      void initializePlutoServer(manager, serverOutputChannel);
+      return manager;
+    }
+  );
+  context.subscriptions.push(
+    managers,
+    vscode.workspace.onDidChangeWorkspaceFolders(({ removed }) => {
+      for (const folder of removed) {
+        managers.removeFolder(folder.uri.fsPath);
+      }
+    })
+  );
+
+  // Pick up server setting changes for the next server start or connection
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("pluto-notebook")) {
+        const config = vscode.workspace.getConfiguration(
+          "pluto-notebook",
+          defaultScope
+        );
+        plutoManager.setPreferredPort(
+          config.get<number>("port", 1234),
+          config.get<boolean>("autoSelectPort", true)
+        );
+        plutoManager.setServerOptions(readJuliaServerOptions(defaultScope));
+        applyManagerSettings(plutoManager, defaultScope);
+        applyServerConnection(plutoManager, defaultScope);
+        for (const [folder, manager] of managers.getFolderManagers()) {
+          const scope = vscode.Uri.file(folder);
+          manager.setServerOptions(readJuliaServerOptions(scope));
+          applyFolderSettings(manager, scope);
+        }
+        for (const [manager, installation] of installationManagers) {
+          manager.setServerOptions(getInstallationServerOptions(installation));
+          applyManagerSettings(manager);
+        }
+      }
+    })
+  );
 
-  // Initialize HTTP MCP Server using the shared PlutoManager (singleton)
-  initializeMCPServer(plutoManager, mcpPort, serverOutputChannel);
+  // Initialize HTTP MCP Server with the managers of all workspace folders
+  // and Julia installations
+  initializeMCPServer(managers, mcpPort, serverOutputChannel);
 
   // Auto-start MCP server if configured
   if (autoStartMcp) {
@@ -51,9 +156,6 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   });
 
-  // Start Pluto server on activation
-  await initializePlutoServer(plutoManager, serverOutputChannel);
-
   // Register the notebook serializer
   context.subscriptions.push(
     vscode.workspace.registerNotebookSerializer(
@@ -62,29 +164,226 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
-  // Register the notebook controller
+  // Register the notebook controller for the configured Julia, plus one per
+  // detected installation, each running its own Pluto server when selected
   const controller = new PlutoNotebookController(
-    plutoManager,
+    managers,
+    controllerOutputChannel
+  );
+  const kernels = new PlutoKernels(
+    controller,
+    context.workspaceState,
+    (installation) => {
+      const label = getInstallationLabel(installation);
+      const port =
+        plutoPort + INSTALLATION_PORT_OFFSET + installationManagers.size;
+      const manager = new PlutoManager(
+        port,
+        {
+          appendLine: (message) =>
+            serverOutputChannel.appendLine(`[${label}] ${message}`),
+          showWarningMessage: vscode.window.showWarningMessage,
+        },
+        getInstallationServerOptions(installation)
+      );
+      // Several servers may run at once, so never fail on a taken port
+      manager.setPreferredPort(port, true);
+      applyManagerSettings(manager);
+      installationManagers.set(manager, installation);
+      managers.addManager(manager);
+      context.subscriptions.push(
+        manager,
+        reportServerErrors(manager, serverOutputChannel)
+      );
+
+      const installationController = new PlutoNotebookController(
+        { getManagerForPath: () => manager },
+        controllerOutputChannel,
+        {
+          id: getKernelId(installation),
+          label,
+          description: installation.channel
+            ? `juliaup channel ${installation.channel}`
+            : installation.executablePath,
+        }
+      );
+
+      // Start the installation's server once a notebook picks it
+      let starting: Promise<void> | undefined;
+      context.subscriptions.push(
+        installationController.onDidChangeSelectedNotebooks(({ selected }) => {
+          if (selected && !manager.isConnected() && !starting) {
+            starting = initializePlutoServer(
+              manager,
+              serverOutputChannel
+            ).finally(() => {
+              starting = undefined;
+            });
+          }
+        })
+      );
+      return installationController;
+    },
     controllerOutputChannel
   );
-  context.subscriptions.push(controller);
+  context.subscriptions.push(kernels);
+  // Commands and MCP tools reach the server of the kernel picked for a
+  // notebook rather than the one of its folder
+  managers.setNotebookResolver((notebookPath) =>
+    kernels.getManagerForNotebook(notebookPath)
+  );
+  void kernels.detectInstallations(
+    config.get<string[]>("juliaInstallations", [])
+  );
 
   // Initialize workers when notebooks are opened
   context.subscriptions.push(
     vscode.workspace.onDidOpenNotebookDocument(async (notebook) => {
-      await controller.registerNotebookDocument(notebook);
+      await kernels.openNotebook(notebook);
+    })
+  );
+
+  // Shut down notebook processes that are no longer needed
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseNotebookDocument(async (notebook) => {
+      await kernels.closeNotebook(notebook);
     })
   );
 
   // Handle notebook cell changes (add/delete cells)
   context.subscriptions.push(
     vscode.workspace.onDidChangeNotebookDocument(async (event) => {
-      await controller.handleVsCodeNotebookChange(event);
+      await kernels.changeNotebook(event);
     })
   );
 
   // Register all commands
-  registerAllCommands(context, plutoManager);
+  registerAllCommands(context, managers);
+
+  // Start Pluto server on activation. The install prompt waits for the user,
+  // so activation does not wait for it.
+  void initializePlutoServer(plutoManager, serverOutputChannel);
+}
+
+/**
+ * Show errors printed by the Julia server as notifications that lead to the
+ * full server log. Repeats of the previous message are not shown again.
+ */
+function reportServerErrors(
+  plutoManager: PlutoManager,
+  serverOutputChannel: vscode.OutputChannel
+): vscode.Disposable {
+  let lastMessage: string | undefined;
+  return plutoManager.on("serverDiagnostic", async ({ severity, message }) => {
+    if (severity !== "error" || message === lastMessage) {
+      return;
+    }
+    lastMessage = message;
+    const choice = await vscode.window.showErrorMessage(
+      `Pluto server: ${message}`,
+      "Show Log"
+    );
+    if (choice === "Show Log") {
+      serverOutputChannel.show();
+    }
+  });
+}
+
+/**
+ * Apply the settings shared by all Pluto managers
+ */
+function applyManagerSettings(
+  plutoManager: PlutoManager,
+  scope?: vscode.Uri
+): void {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+  plutoManager.setStartupTimeout(config.get<number>("startupTimeout", 180));
+  applyCrashRecovery(plutoManager, scope);
+  applyWorkerLimits(plutoManager, scope);
+  plutoManager.setNotebookProcessSettings(readNotebookProcessSettings(scope));
+}
+
+/**
+ * Apply the settings of a workspace folder to its manager. Several servers
+ * may run at once, so a taken port is never an error.
+ */
+function applyFolderSettings(
+  plutoManager: PlutoManager,
+  scope: vscode.Uri
+): void {
+  plutoManager.setPreferredPort(getFolderPort(scope), true);
+  applyManagerSettings(plutoManager, scope);
+  applyServerConnection(plutoManager, scope);
+}
+
+/**
+ * Preferred port of a folder's server: the configured port plus the
+ * folder's index, so servers of folders started at the same time do not all
+ * race for the same port
+ */
+function getFolderPort(scope: vscode.Uri): number {
+  const port = vscode.workspace
+    .getConfiguration("pluto-notebook", scope)
+    .get<number>("port", 1234);
+  return port + (vscode.workspace.getWorkspaceFolder(scope)?.index ?? 0);
+}
+
+/**
+ * Launch options for the server of a detected Julia installation: the
+ * configured options with the installation's executable
+ */
+function getInstallationServerOptions(
+  installation: JuliaInstallation
+): JuliaServerOptions {
+  return {
+    ...readJuliaServerOptions(),
+    executablePath: installation.executablePath,
+    channel: undefined,
+  };
+}
+
+/**
+ * Apply the crash restart settings
+ */
+function applyCrashRecovery(
+  plutoManager: PlutoManager,
+  scope?: vscode.Uri
+): void {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+  plutoManager.setCrashRecovery(
+    config.get<boolean>("autoRestart", false),
+    config.get<number>("maxRestartAttempts", 3)
+  );
+}
+
+/**
+ * Apply the idle timeout and limit for notebook processes
+ */
+function applyWorkerLimits(
+  plutoManager: PlutoManager,
+  scope?: vscode.Uri
+): void {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+  plutoManager.setWorkerLimits(
+    config.get<number>("workerIdleTimeout", 30),
+    config.get<number>("maxWorkers", 4)
+  );
+}
+
+/**
+ * Apply the configured server URL, reporting invalid values to the user
+ */
+function applyServerConnection(
+  plutoManager: PlutoManager,
+  scope?: vscode.Uri
+): void {
+  const { url, secret } = readServerConnection(scope);
+  try {
+    plutoManager.setServerUrl(url, secret);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(errorMessage);
+  }
 }
 
 export function deactivate() {}
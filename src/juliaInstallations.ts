@@ -0,0 +1,155 @@
+import { execFile } from "child_process";
+import { realpathSync } from "fs";
+import { delimiter, sep } from "path";
+import { promisify } from "util";
+import { resolveExecutable } from "./serverConfig.ts";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A Julia installation that can back a notebook kernel
+ */
+export interface JuliaInstallation {
+  /** Stable identifier, used to remember the kernel of a notebook */
+  id: string;
+  executablePath: string;
+  version?: string;
+  /** juliaup channel name, for installations managed by juliaup */
+  channel?: string;
+  source: "juliaup" | "path" | "configured";
+}
+
+interface JuliaupChannel {
+  Name: string;
+  File: string;
+  Version?: string;
+}
+
+/**
+ * Parse the output of `juliaup api getconfig1`
+ */
+export function parseJuliaupConfig(output: string): JuliaInstallation[] {
+  let config: {
+    DefaultChannel?: JuliaupChannel;
+    OtherChannels?: JuliaupChannel[];
+  };
+  try {
+    config = JSON.parse(output);
+  } catch {
+    return [];
+  }
+
+  const channels = [
+    ...(config.DefaultChannel ? [config.DefaultChannel] : []),
+    ...(config.OtherChannels ?? []),
+  ];
+  return channels
+    .filter((channel) => channel.Name && channel.File)
+    .map((channel): JuliaInstallation => ({
+      id: `juliaup:${channel.Name}`,
+      executablePath: channel.File,
+      // e.g. `1.11.2+0.x64.linux.gnu`
+      version: channel.Version?.split("+")[0],
+      channel: channel.Name,
+      source: "juliaup",
+    }));
+}
+
+/**
+ * Extract the version from the output of `julia --version`
+ */
+export function parseJuliaVersion(output: string): string | undefined {
+  return /julia version (\S+)/.exec(output)?.[1];
+}
+
+/**
+ * Describe an installation for the kernel picker
+ */
+export function getInstallationLabel(installation: JuliaInstallation): string {
+  return installation.version
+    ? `Pluto (Julia ${installation.version})`
+    : "Pluto (Julia)";
+}
+
+/**
+ * Find the Julia installations on this machine: juliaup channels, `julia`
+ * executables on the PATH and the configured executables. Installations
+ * that resolve to the same file are listed once.
+ */
+export async function detectJuliaInstallations(
+  configuredPaths: string[] = [],
+  env: NodeJS.ProcessEnv = process.env
+): Promise<JuliaInstallation[]> {
+  const installations: JuliaInstallation[] = [];
+  const seen = new Set<string>();
+  const add = (installation: JuliaInstallation) => {
+    const key = realPath(installation.executablePath);
+    if (!seen.has(key)) {
+      seen.add(key);
+      installations.push(installation);
+    }
+  };
+
+  const juliaup = await runCommand("juliaup", ["api", "getconfig1"], env);
+  const channels = juliaup ? parseJuliaupConfig(juliaup) : [];
+  channels.forEach(add);
+
+  const pathExecutables = (env.PATH ?? "")
+    .split(delimiter)
+    .filter((dir) => dir)
+    .map((dir) => resolveExecutable("julia", { ...env, PATH: dir }))
+    .filter((path): path is string => !!path)
+    // The juliaup launcher only forwards to the channels listed above
+    .filter(
+      (path) =>
+        channels.length === 0 ||
+        !realPath(path).includes(`${sep}.juliaup${sep}`)
+    );
+
+  const candidates = [
+    ...pathExecutables.map((path) => ({ path, source: "path" as const })),
+    ...configuredPaths
+      .map((path) => resolveExecutable(path, env))
+      .filter((path): path is string => !!path)
+      .map((path) => ({ path, source: "configured" as const })),
+  ];
+
+  for (const { path, source } of candidates) {
+    if (seen.has(realPath(path))) {
+      continue;
+    }
+    const output = await runCommand(path, ["--version"], env);
+    add({
+      id: `path:${realPath(path)}`,
+      executablePath: path,
+      version: output ? parseJuliaVersion(output) : undefined,
+      source,
+    });
+  }
+
+  return installations;
+}
+
+async function runCommand(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync(command, args, {
+      env,
+      timeout: 10_000,
+    });
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return path;
+  }
+}
@@ -0,0 +1,188 @@
+import * as vscode from "vscode";
+import { PlutoNotebookController } from "./controller.ts";
+import { PlutoManager } from "./plutoManager.ts";
+import {
+  JuliaInstallation,
+  detectJuliaInstallations,
+} from "./juliaInstallations.ts";
+
+// workspaceState key: notebook URI -> id of the controller chosen for it
+const SELECTED_KERNELS_KEY = "pluto-notebook.selectedKernels";
+
+/**
+ * Get the id of the controller backed by a Julia installation
+ */
+export function getKernelId(installation: JuliaInstallation): string {
+  return `pluto-notebook-controller-${installation.id}`;
+}
+
+/**
+ * Keeps one notebook controller per Julia installation, each with its own
+ * Pluto server, and routes notebooks to the controller chosen for them. The
+ * choice is remembered per notebook in the workspace state.
+ */
+export class PlutoKernels implements vscode.Disposable {
+  private controllers = new Map<string, PlutoNotebookController>();
+  private disposables: vscode.Disposable[] = [];
+  private detection: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly defaultController: PlutoNotebookController,
+    private readonly workspaceState: vscode.Memento,
+    private readonly createController: (
+      installation: JuliaInstallation
+    ) => PlutoNotebookController,
+    private readonly outputChannel: vscode.OutputChannel
+  ) {
+    this.add(defaultController);
+  }
+
+  /**
+   * Detect Julia installations in the background and add a controller for
+   * each new one. Notebooks opened meanwhile wait for the detection.
+   */
+  detectInstallations(configuredPaths: string[]): Promise<void> {
+    this.detection = detectJuliaInstallations(configuredPaths)
+      .then((installations) => {
+        for (const installation of installations) {
+          if (!this.controllers.has(getKernelId(installation))) {
+            this.add(this.createController(installation));
+          }
+        }
+        this.outputChannel.appendLine(
+          `Detected ${installations.length} Julia installation(s)`
+        );
+      })
+      .catch((error) => {
+        this.outputChannel.appendLine(
+          `Failed to detect Julia installations: ${error}`
+        );
+      });
+    return this.detection;
+  }
+
+  getControllers(): PlutoNotebookController[] {
+    return [...this.controllers.values()];
+  }
+
+  /**
+   * Get the manager of the controller running an open notebook
+   */
+  getManagerForNotebook(notebookPath: string): PlutoManager | undefined {
+    const notebook = vscode.workspace.notebookDocuments.find(
+      (doc) => doc.uri.fsPath === notebookPath
+    );
+    if (!notebook) {
+      return undefined;
+    }
+    return this.ownersOf(notebook)[0]?.getManager(notebook);
+  }
+
+  /**
+   * Register an opened notebook with its remembered controller, or the
+   * default one. A notebook picked in the kernel picker meanwhile already has
+   * its controller and worker.
+   */
+  async openNotebook(notebook: vscode.NotebookDocument): Promise<void> {
+    await this.detection;
+    if (this.ownersOf(notebook).length > 0) {
+      return;
+    }
+    const controller = this.controllerFor(notebook);
+    controller.setPreferred(notebook);
+    await controller.registerNotebookDocument(notebook);
+  }
+
+  async closeNotebook(notebook: vscode.NotebookDocument): Promise<void> {
+    for (const controller of this.ownersOf(notebook)) {
+      await controller.unregisterNotebookDocument(notebook);
+    }
+  }
+
+  async changeNotebook(
+    event: vscode.NotebookDocumentChangeEvent
+  ): Promise<void> {
+    for (const controller of this.ownersOf(event.notebook)) {
+      await controller.handleVsCodeNotebookChange(event);
+    }
+  }
+
+  private add(controller: PlutoNotebookController): void {
+    this.controllers.set(controller.controllerId, controller);
+    this.disposables.push(
+      controller.onDidChangeSelectedNotebooks(({ notebook, selected }) =>
+        this.handleSelection(controller, notebook, selected)
+      )
+    );
+
+    // Restore the choice of notebooks that were opened before detection
+    for (const notebook of vscode.workspace.notebookDocuments) {
+      if (this.getRemembered(notebook) === controller.controllerId) {
+        controller.setPreferred(notebook);
+      }
+    }
+  }
+
+  /**
+   * Move a notebook to the controller picked in the kernel picker. The
+   * previous controller releases its worker on deselection.
+   */
+  private async handleSelection(
+    controller: PlutoNotebookController,
+    notebook: vscode.NotebookDocument,
+    selected: boolean
+  ): Promise<void> {
+    if (!selected) {
+      if (controller.ownsNotebook(notebook)) {
+        await controller.unregisterNotebookDocument(notebook);
+      }
+      return;
+    }
+
+    await this.workspaceState.update(SELECTED_KERNELS_KEY, {
+      ...this.getSelections(),
+      [notebook.uri.toString()]: controller.controllerId,
+    });
+    if (!controller.ownsNotebook(notebook)) {
+      await controller.registerNotebookDocument(notebook);
+    }
+  }
+
+  private controllerFor(
+    notebook: vscode.NotebookDocument
+  ): PlutoNotebookController {
+    const remembered = this.getRemembered(notebook);
+    return (
+      (remembered && this.controllers.get(remembered)) || this.defaultController
+    );
+  }
+
+  private ownersOf(
+    notebook: vscode.NotebookDocument
+  ): PlutoNotebookController[] {
+    return this.getControllers().filter((controller) =>
+      controller.ownsNotebook(notebook)
+    );
+  }
+
+  private getRemembered(notebook: vscode.NotebookDocument): string | undefined {
+    return this.getSelections()[notebook.uri.toString()];
+  }
+
+  private getSelections(): Record<string, string> {
+    return this.workspaceState.get<Record<string, string>>(
+      SELECTED_KERNELS_KEY,
+      {}
+    );
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    for (const controller of this.controllers.values()) {
+      controller.dispose();
+    }
+    this.controllers.clear();
+  }
+}
@@ -5,6 +5,7 @@ import { Server as HttpServer } from "http";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { PlutoManager } from "./plutoManager.ts";
+import { PlutoManagerRegistry } from "./shared/plutoManagerInstance.ts";
 import { z } from "zod";
 // @ts-ignore - esbuild will load this as text
 import PlutoGuide from "./PLUTO_GUIDE.md";
@@ -20,11 +21,11 @@ export class PlutoMCPHttpServer {
   private app: Express;
   private httpServer?: HttpServer;
   private transports: Map<string, SSEServerTransport> = new Map();
-  private plutoManager: PlutoManager;
+  private managers: PlutoManagerRegistry;
   private port: number;
 
-  constructor(plutoManager: PlutoManager, port: number = 3100) {
-    this.plutoManager = plutoManager;
+  constructor(managers: PlutoManagerRegistry, port: number = 3100) {
+    this.managers = managers;
     this.port = port;
     this.app = express();
     this.app.use(express.json());
@@ -51,6 +52,16 @@ export class PlutoMCPHttpServer {
     return server;
   }
 
+  /**
+   * Get the manager running a notebook, including one picked as its kernel,
+   * or the default one
+   */
+  private getManager(notebookPath?: string): PlutoManager {
+    return notebookPath
+      ? this.managers.getManagerForNotebook(notebookPath)
+      : this.managers.getDefaultManager();
+  }
+
   private registerTools(server: McpServer): void {
     // Learn Pluto Basics
     server.tool(
@@ -72,32 +83,42 @@ export class PlutoMCPHttpServer {
     // Start Pluto Server
     server.tool(
       "start_pluto_server",
-      "Start the Pluto server on a specified port",
+      "Start the Pluto server, optionally on a specified port (a free port is chosen if it is taken and automatic port selection is enabled)",
       {
         port: z
           .number()
-          .describe("Port number for the Pluto server")
-          .optional()
-          .default(1234),
+          .describe("Preferred port number for the Pluto server")
+          .optional(),
+        path: z
+          .string()
+          .describe(
+            "Path of a notebook, selecting the server of its workspace folder"
+          )
+          .optional(),
       },
-      async ({ port }) => {
-        if (this.plutoManager.isRunning()) {
+      async ({ port, path }) => {
+        const plutoManager = this.getManager(path);
+        if (plutoManager.isConnected()) {
           return {
             content: [
               {
                 type: "text",
-                text: "Pluto server is already running",
+                text: `Pluto server is already running at ${plutoManager.getServerUrl()}`,
               },
             ],
           };
         }
 
-        await this.plutoManager.start();
+        if (port !== undefined) {
+          plutoManager.setPreferredPort(port);
+        }
+
+        await plutoManager.start();
         return {
           content: [
             {
               type: "text",
-              text: `Pluto server started on port ${port}`,
+              text: `Pluto server started on port ${plutoManager.getPort()}`,
             },
           ],
         };
@@ -107,32 +128,46 @@ export class PlutoMCPHttpServer {
     // Connect to Pluto Server
     server.tool(
       "connect_to_pluto_server",
-      "Connect to an existing Pluto server (assumes server is already running)",
+      "Connect to an existing Pluto server (assumes server is already running). Without a URL or port, the configured server is used",
       {
+        url: z
+          .string()
+          .describe(
+            "Full server URL, e.g. https://host:8443/pluto or http://localhost:1234/?secret=abc"
+          )
+          .optional(),
         port: z
           .number()
-          .describe("Port number of the running Pluto server")
-          .optional()
-          .default(1234),
+          .describe("Port number of a Pluto server running on localhost")
+          .optional(),
+        secret: z
+          .string()
+          .describe("Access secret of the Pluto server")
+          .optional(),
       },
-      async ({ port }) => {
-        if (this.plutoManager.isConnected()) {
+      async ({ url, port, secret }) => {
+        const plutoManager = this.getManager();
+        if (plutoManager.isConnected()) {
           return {
             content: [
               {
                 type: "text",
-                text: "Already connected to a Pluto server",
+                text: `Already connected to a Pluto server at ${plutoManager.getServerUrl()}`,
               },
             ],
           };
         }
 
-        await this.plutoManager.connect();
+        // A one-off URL does not replace the configured server
+        await plutoManager.connect(
+          url ?? (port ? `http://localhost:${port}` : undefined),
+          secret
+        );
         return {
           content: [
             {
               type: "text",
-              text: `Connected to Pluto server at port ${port}`,
+              text: `Connected to Pluto server at ${plutoManager.getServerUrl()}`,
             },
           ],
         };
@@ -143,9 +178,17 @@ export class PlutoMCPHttpServer {
     server.tool(
       "stop_pluto_server",
       "Stop the running Pluto server",
-      {},
-      async () => {
-        if (!this.plutoManager.isRunning()) {
+      {
+        path: z
+          .string()
+          .describe(
+            "Path of a notebook, selecting the server of its workspace folder"
+          )
+          .optional(),
+      },
+      async ({ path }) => {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           return {
             content: [
               {
@@ -156,7 +199,7 @@ export class PlutoMCPHttpServer {
           };
         }
 
-        await this.plutoManager.stop();
+        await plutoManager.stop();
         return {
           content: [
             {
@@ -176,13 +219,14 @@ export class PlutoMCPHttpServer {
         path: z.string().describe("Path to the .jl notebook file"),
       },
       async ({ path }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error(
             "Pluto server is not running. Start it first with start_pluto_server"
           );
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error("Failed to create worker for notebook");
@@ -192,7 +236,9 @@ export class PlutoMCPHttpServer {
           content: [
             {
               type: "text",
-              text: `Notebook opened: ${path}\nNotebook ID: ${worker.notebook_id}`,
+              text: `Notebook opened: ${path}\nNotebook ID: ${
+                worker.notebook_id
+              }\nURL: ${plutoManager.getNotebookUrl(worker.notebook_id)}`,
             },
           ],
         };
@@ -208,11 +254,12 @@ export class PlutoMCPHttpServer {
         cell_id: z.string().describe("UUID of the cell to execute"),
       },
       async ({ path, cell_id }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error("Pluto server is not running");
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error(`Notebook ${path} is not open`);
@@ -224,7 +271,7 @@ export class PlutoMCPHttpServer {
           throw new Error(`Cell ${cell_id} not found`);
         }
 
-        const result = await this.plutoManager.executeCell(
+        const result = await plutoManager.executeCell(
           worker,
           cell_id,
           cellData.input.code
@@ -260,11 +307,12 @@ export class PlutoMCPHttpServer {
         index: z.number().describe("Cell index position").optional().default(0),
       },
       async ({ path, code, index }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error("Pluto server is not running");
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error(`Notebook ${path} is not open`);
@@ -308,11 +356,12 @@ export class PlutoMCPHttpServer {
           .default(true),
       },
       async ({ path, cell_id, code, run }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error("Pluto server is not running");
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error(`Notebook ${path} is not open`);
@@ -321,7 +370,7 @@ export class PlutoMCPHttpServer {
         let result = null;
 
         if (run) {
-          result = await this.plutoManager.executeCell(worker, cell_id, code);
+          result = await plutoManager.executeCell(worker, cell_id, code);
         } else {
           await worker.updateSnippetCode(cell_id, code, false);
         }
@@ -358,11 +407,12 @@ export class PlutoMCPHttpServer {
         cell_id: z.string().describe("UUID of the cell to read"),
       },
       async ({ path, cell_id }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error("Pluto server is not running");
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error(`Notebook ${path} is not open`);
@@ -414,9 +464,18 @@ export class PlutoMCPHttpServer {
     server.tool(
       "get_notebook_status",
       "Get the status of the Pluto server and open notebooks",
-      {},
-      async () => {
-        const isConnected = this.plutoManager.isConnected();
+      {
+        path: z
+          .string()
+          .describe(
+            "Path of a notebook, selecting the server of its workspace folder"
+          )
+          .optional(),
+      },
+      async ({ path }) => {
+        const plutoManager = this.getManager(path);
+        const isConnected = plutoManager.isConnected();
+        const versions = plutoManager.getServerVersions();
 
         return {
           content: [
@@ -425,6 +484,16 @@ export class PlutoMCPHttpServer {
               text: JSON.stringify(
                 {
                   server_running: isConnected,
+                  server_url: plutoManager.getServerUrl(),
+                  julia_version: versions?.julia ?? null,
+                  pluto_version: versions?.pluto ?? null,
+                  recent_errors: plutoManager
+                    .getRecentDiagnostics()
+                    .map(({ severity, message, timestamp }) => ({
+                      severity,
+                      message,
+                      time: new Date(timestamp).toISOString(),
+                    })),
                   message: isConnected
                     ? "Pluto server is running"
                     : "Pluto server is not running",
@@ -444,11 +513,17 @@ export class PlutoMCPHttpServer {
       "Get a list of all open notebooks with their paths and notebook IDs",
       {},
       async () => {
-        if (!this.plutoManager.isConnected()) {
+        // Notebooks of all workspace folders
+        const running = this.managers
+          .getManagers()
+          .filter((manager) => manager.isConnected());
+        if (running.length === 0) {
           throw new Error("Pluto server is not running");
         }
 
-        const notebooks = this.plutoManager.getOpenNotebooks();
+        const notebooks = running.flatMap((manager) =>
+          manager.getOpenNotebooks()
+        );
 
         return {
           content: [
@@ -477,20 +552,18 @@ export class PlutoMCPHttpServer {
         code: z.string().describe("Julia code to execute"),
       },
       async ({ path, code }) => {
-        if (!this.plutoManager.isConnected()) {
+        const plutoManager = this.getManager(path);
+        if (!plutoManager.isConnected()) {
           throw new Error("Pluto server is not running");
         }
 
-        const worker = await this.plutoManager.getWorker(path);
+        const worker = await plutoManager.getWorker(path);
 
         if (!worker) {
           throw new Error(`Notebook ${path} is not open`);
         }
 
-        const result = await this.plutoManager.executeCodeEphemeral(
-          worker,
-          code
-        );
+        const result = await plutoManager.executeCodeEphemeral(worker, code);
 
         return {
           content: [
@@ -581,7 +654,7 @@ export class PlutoMCPHttpServer {
     this.app.get("/health", (_req: Request, res: Response) => {
       res.json({
         status: "ok",
-        plutoServerRunning: this.plutoManager.isConnected(),
+        plutoServerRunning: this.managers.getDefaultManager().isConnected(),
         activeSessions: this.transports.size,
       });
     });
@@ -656,12 +729,12 @@ export class PlutoMCPHttpServer {
 
 /**
  * Initialize the singleton MCP server instance
- * @param plutoManager - Shared PlutoManager instance
+ * @param managers - Registry of the PlutoManagers of all workspace folders
  * @param port - Port number for the MCP server
  * @param outputChannel - Output channel for logging
  */
 export function initializeMCPServer(
-  plutoManager: PlutoManager,
+  managers: PlutoManagerRegistry,
   port: number,
   outputChannel: {
     appendLine: (msg: string) => void;
@@ -672,7 +745,7 @@ export function initializeMCPServer(
     return;
   }
 
-  mcpServerInstance = new PlutoMCPHttpServer(plutoManager, port);
+  mcpServerInstance = new PlutoMCPHttpServer(managers, port);
   outputChannel.appendLine(`MCP server initialized on port ${port}`);
 }
 
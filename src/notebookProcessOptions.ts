@@ -0,0 +1,260 @@
+/**
+ * Options for the Julia process running a single notebook
+ */
+export interface NotebookProcessOptions {
+  /** Environment variables set in the notebook process */
+  env: Record<string, string>;
+  /** `.env` file to load variables from, relative to the notebook */
+  envFile?: string;
+  /** Pluto compiler options, e.g. `threads` or `heap_size_hint` */
+  compilerOptions: Record<string, string | number | boolean>;
+}
+
+/**
+ * Options as written in the `pluto-notebook.notebookProcessOptions` setting,
+ * where `threads` is a shorthand for the compiler option
+ */
+export interface NotebookProcessSettingsEntry {
+  env?: Record<string, string>;
+  envFile?: string;
+  threads?: string | number;
+  compilerOptions?: Record<string, string | number | boolean>;
+}
+
+/** Glob pattern -> options for matching notebooks */
+export type NotebookProcessSettings = Record<
+  string,
+  NotebookProcessSettingsEntry
+>;
+
+type TomlValue = string | number | boolean;
+
+/**
+ * Convert a glob pattern to a regular expression matching absolute paths.
+ * `**` matches across directories, `*` and `?` within one. Patterns that do
+ * not start at the root match the end of the path.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/\\/g, "/");
+  if (!pattern.startsWith("/") && !pattern.startsWith("**")) {
+    pattern = `**/${pattern}`;
+  }
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` may also match no directory at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse the contents of a `.env` file. Supports comments, `export` prefixes
+ * and single or double quoted values.
+ */
+export function parseDotEnv(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(
+      line
+    );
+    if (!match) {
+      continue;
+    }
+
+    const [, key, rawValue] = match;
+    let value = rawValue;
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value
+        .slice(1, -1)
+        .replace(/\\n/g, "\n")
+        .replace(/\\"/g, '"')
+        .replace(/\\\\/g, "\\");
+    } else if (
+      value.startsWith("'") &&
+      value.endsWith("'") &&
+      value.length >= 2
+    ) {
+      value = value.slice(1, -1);
+    } else {
+      // Unquoted values may end with a comment
+      value = value.replace(/\s+#.*$/, "");
+    }
+    env[key] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Read the process options from the notebook frontmatter, which Pluto stores
+ * as TOML in the `#>` lines at the top of the file:
+ *
+ * ```
+ * #> [frontmatter.process]
+ * #> threads = 4
+ * #> env_file = ".env"
+ * #>
+ * #> [frontmatter.process.env]
+ * #> DATA_DIR = "/data"
+ * #>
+ * #> [frontmatter.process.compiler_options]
+ * #> heap_size_hint = "2G"
+ * ```
+ */
+export function parseFrontmatterProcessOptions(
+  fileContent: string
+): NotebookProcessSettingsEntry {
+  const options: NotebookProcessSettingsEntry = {};
+  let table = "";
+
+  for (const rawLine of fileContent.split(/\r?\n/)) {
+    if (!rawLine.startsWith("#>")) {
+      continue;
+    }
+    const line = rawLine.slice(2).trim();
+
+    const header = /^\[([\w.]+)\]$/.exec(line);
+    if (header) {
+      table = header[1];
+      continue;
+    }
+
+    const assignment = /^([\w-]+)\s*=\s*(.+)$/.exec(line);
+    if (!assignment) {
+      continue;
+    }
+    const [, key, rawValue] = assignment;
+    const value = parseTomlValue(rawValue);
+    if (value === undefined) {
+      continue;
+    }
+
+    if (table === "frontmatter.process") {
+      if (key === "threads" && typeof value !== "boolean") {
+        options.threads = value;
+      } else if (key === "env_file" && typeof value === "string") {
+        options.envFile = value;
+      }
+    } else if (table === "frontmatter.process.env") {
+      (options.env ??= {})[key] = String(value);
+    } else if (table === "frontmatter.process.compiler_options") {
+      (options.compilerOptions ??= {})[key] = value;
+    }
+  }
+
+  return options;
+}
+
+function parseTomlValue(raw: string): TomlValue | undefined {
+  const value = raw.replace(/\s+#.*$/, "").trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return value.slice(1, -1).replace(/\\"/g, '"').replace(/\\\\/g, "\\");
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1);
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  if (/^[+-]?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Combine the options of all settings entries whose pattern matches the
+ * notebook (in order), then the frontmatter, which takes precedence
+ */
+export function resolveNotebookProcessOptions(
+  notebookPath: string,
+  settings: NotebookProcessSettings,
+  frontmatter: NotebookProcessSettingsEntry = {}
+): NotebookProcessOptions {
+  const normalizedPath = notebookPath.replace(/\\/g, "/");
+  const resolved: NotebookProcessOptions = { env: {}, compilerOptions: {} };
+
+  const entries = Object.entries(settings)
+    .filter(([glob]) => globToRegExp(glob).test(normalizedPath))
+    .map(([, entry]) => entry);
+
+  for (const entry of [...entries, frontmatter]) {
+    Object.assign(resolved.env, entry.env);
+    Object.assign(resolved.compilerOptions, entry.compilerOptions);
+    if (entry.threads !== undefined) {
+      resolved.compilerOptions.threads = String(entry.threads);
+    }
+    if (entry.envFile) {
+      resolved.envFile = entry.envFile;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Build the Julia code that sets the given environment variables
+ */
+export function buildEnvSetupCode(env: Record<string, string>): string {
+  const assignments = Object.entries(env).map(
+    ([key, value]) => `ENV[${toJuliaString(key)}] = ${toJuliaString(value)}`
+  );
+  return [...assignments, "nothing"].join("; ");
+}
+
+/**
+ * Serialize environment variables for `buildEnvFileSetupCode`, as
+ * NUL-separated `KEY=value` entries like `/proc/<pid>/environ`
+ */
+export function formatEnvFile(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\0");
+}
+
+/**
+ * Build the Julia code that sets the environment variables written to `path`
+ * by `formatEnvFile` and deletes the file. Only the path appears in the code,
+ * so the values never show up in a cell.
+ */
+export function buildEnvFileSetupCode(path: string): string {
+  return [
+    `let path = ${toJuliaString(path)}`,
+    `try for entry in split(read(path, String), '\\0'; keepempty=false)`,
+    `(key, value) = split(entry, '='; limit=2)`,
+    `ENV[key] = value`,
+    `end finally rm(path; force=true) end end`,
+    `nothing`,
+  ].join("; ");
+}
+
+function toJuliaString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n");
+  return `"${escaped}"`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Apply each patch of an update batch on its own, so that one patch that
+ * cannot be applied does not keep the rest of the batch from being applied
+ */
+export function applyPatches<P>(
+  patches: readonly P[],
+  apply: (patch: P) => void,
+  onError: (patch: P, error: unknown) => void
+): void {
+  for (const patch of patches) {
+    try {
+      apply(patch);
+    } catch (error) {
+      onError(patch, error);
+    }
+  }
+}
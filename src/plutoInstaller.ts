@@ -0,0 +1,43 @@
+import { spawn } from "child_process";
+import { JuliaServerOptions, buildInstallCommand } from "./serverConfig.ts";
+import { JuliaNotFoundError, PlutoInstallError } from "./serverErrors.ts";
+
+/**
+ * Install packages (Pluto and optionally PlutoUI) into the extension's shared
+ * Julia environment. Output is forwarded line by line so callers can show
+ * progress; aborting the signal kills the installer process.
+ */
+export function installPlutoPackages(
+  options: JuliaServerOptions,
+  packages: string[],
+  onOutput: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { command, args, env } = buildInstallCommand(options, packages);
+
+  return new Promise((resolve, reject) => {
+    const julia = spawn(command, args, { env, signal });
+
+    const forward = (data: Buffer) => {
+      for (const line of data.toString().split(/\r?\n/)) {
+        if (line.trim()) {
+          onOutput(line);
+        }
+      }
+    };
+    julia.stdout?.on("data", forward);
+    julia.stderr?.on("data", forward);
+
+    julia.on("error", (error: NodeJS.ErrnoException) => {
+      reject(error.code === "ENOENT" ? new JuliaNotFoundError(command) : error);
+    });
+
+    julia.on("exit", (code) => {
+      if (code === 0) {
+        resolve();
+      } else if (!signal?.aborted) {
+        reject(new PlutoInstallError(code));
+      }
+    });
+  });
+}
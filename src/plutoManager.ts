@@ -1,15 +1,108 @@
 import "@plutojl/rainbow/node-polyfill";
-import { CellResultData, Host, Worker } from "@plutojl/rainbow";
-import { ChildProcess, spawn } from "child_process";
-import { readFile } from "fs/promises";
+import { CellResultData, Host, UpdateEvent, Worker } from "@plutojl/rainbow";
+import { ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join, resolve as resolvePath } from "path";
+import {
+  JuliaServerOptions,
+  assertServerOptions,
+  buildServerCommand,
+} from "./serverConfig.ts";
+import {
+  JuliaNotFoundError,
+  JuliaProcessExitedError,
+  PlutoNotInstalledError,
+  PortInUseError,
+  ServerStartCancelledError,
+  ServerStartTimeoutError,
+} from "./serverErrors.ts";
+import {
+  NotebookProcessOptions,
+  NotebookProcessSettings,
+  buildEnvFileSetupCode,
+  buildEnvSetupCode,
+  formatEnvFile,
+  parseDotEnv,
+  parseFrontmatterProcessOptions,
+  resolveNotebookProcessOptions,
+} from "./notebookProcessOptions.ts";
+import { findFreePort, isPortAvailable } from "./ports.ts";
+import {
+  WorkerActivity,
+  findIdleNotebooks,
+  findLeastRecentlyUsed,
+  hasActiveCells,
+} from "./workerActivity.ts";
+import { EphemeralRun, claimEphemeralCells } from "./ephemeralCells.ts";
+import {
+  signalProcessTree,
+  spawnProcessTree,
+  terminateProcessTree,
+} from "./processTree.ts";
+import {
+  PlutoManagerEventListener,
+  PlutoManagerEvents,
+  WorkerCloseReason,
+} from "./plutoManagerEvents.ts";
+import {
+  buildNotebookUrl,
+  extractSecret,
+  parseServerUrl,
+  pingServer,
+  redactSecret,
+} from "./serverUrl.ts";
+import { ServerDiagnostic, ServerOutputParser } from "./serverDiagnostics.ts";
+import {
+  ServerVersions,
+  checkServerVersions,
+  parseServerVersions,
+} from "./versionCheck.ts";
+
+// Number of server errors and warnings kept for status reporting
+const MAX_RECENT_DIAGNOSTICS = 20;
+
 /**
  * Manages connection to Pluto server and notebook sessions
  */
 export class PlutoManager {
   private host?: Host; // Host from @plutojl/rainbow
   private workers: Map<string, Worker> = new Map(); // notebook_id -> Worker
-  private serverUrl: string;
+  private serverUrl: string; // URL of the locally launched server
+  private remoteUrl?: string; // Configured server URL, used instead of launching
+  private configuredSecret?: string; // Secret for servers we did not launch
+  private connectedUrl?: string; // Server of a one-off `connect`, until stopped
+  private secret?: string; // Access secret of the current connection
+  private serverVersions?: ServerVersions; // Reported by the local server
+  private outputParser = new ServerOutputParser();
+  private outputFlushTimer?: NodeJS.Timeout;
+  // Start of a server output line whose end has not arrived yet
+  private partialOutput = { prefix: "", text: "" };
+  private recentDiagnostics: ServerDiagnostic[] = [];
   private juliaProcess?: ChildProcess;
+  private preferredPort: number; // Configured port, tried first on every start
+  private autoSelectPort = true; // Fall back to a free port when it is taken
+  private autoRestart = false; // Restart the server when it crashes
+  private maxRestartAttempts = 3;
+  private restartAttempts = 0; // Consecutive crash restarts so far
+  private restartTimer?: NodeJS.Timeout;
+  private startedAt = 0; // Time the current server became ready
+  private startupTimeout = 180; // Seconds to wait for the server to be ready
+  private workerIdleTimeout = 0; // Minutes before an idle worker is shut down
+  private maxWorkers = 0; // Maximum number of notebook processes, 0 = no limit
+  private lastActivity = new Map<string, number>(); // notebook path -> time
+  private attachedNotebooks = new Set<string>(); // Sessions we did not start
+  private busyNotebooks = new Set<string>(); // Notebooks with a running or queued cell
+  private ephemeralRuns = new Map<Worker, EphemeralRun[]>(); // Temporary cells being run
+  private ephemeralCells = new Set<string>(); // IDs of temporary cells
+  private cellOrders = new WeakMap<Worker, readonly string[]>(); // Last cell order seen
+  private idleTimer?: NodeJS.Timeout;
+  private notebookProcessSettings: NotebookProcessSettings = {};
+  private listeners = new Map<
+    keyof PlutoManagerEvents,
+    Set<PlutoManagerEventListener<never>>
+  >();
 
   constructor(
     private port: number = 1234,
@@ -19,9 +112,154 @@ export class PlutoManager {
         message: string,
         ...items: T[]
       ): Thenable<T | undefined>;
-    }
+    },
+    private serverOptions: JuliaServerOptions = {}
   ) {
     this.serverUrl = `http://localhost:${port}`;
+    this.preferredPort = port;
+  }
+
+  /**
+   * Set the port to try first and whether to fall back to a free port when it
+   * is taken (applied the next time the server starts)
+   */
+  setPreferredPort(port: number, autoSelect: boolean = this.autoSelectPort) {
+    this.preferredPort = port;
+    this.autoSelectPort = autoSelect;
+  }
+
+  /**
+   * Set how many seconds to wait for a launched server to become ready
+   */
+  setStartupTimeout(seconds: number): void {
+    this.startupTimeout = seconds;
+  }
+
+  /**
+   * Enable or disable automatic restarts after the server crashes
+   */
+  setCrashRecovery(enabled: boolean, maxAttempts: number = 3): void {
+    this.autoRestart = enabled;
+    this.maxRestartAttempts = maxAttempts;
+    if (!enabled) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+  }
+
+  /**
+   * Limit the number of notebook processes: shut down workers that were idle
+   * for `idleTimeoutMinutes`, and the least recently used one when more than
+   * `maxWorkers` are needed. Zero disables either limit.
+   */
+  setWorkerLimits(idleTimeoutMinutes: number, maxWorkers: number): void {
+    this.workerIdleTimeout = Math.max(0, idleTimeoutMinutes);
+    this.maxWorkers = Math.max(0, Math.floor(maxWorkers));
+
+    clearInterval(this.idleTimer);
+    this.idleTimer = undefined;
+    if (this.workerIdleTimeout > 0) {
+      this.idleTimer = setInterval(() => void this.closeIdleWorkers(), 60_000);
+    }
+  }
+
+  /**
+   * Set the per-notebook process options, applied to workers created from
+   * now on
+   */
+  setNotebookProcessSettings(settings: NotebookProcessSettings): void {
+    this.notebookProcessSettings = settings;
+  }
+
+  /**
+   * Subscribe to a server or worker lifecycle event
+   */
+  on<K extends keyof PlutoManagerEvents>(
+    event: K,
+    listener: PlutoManagerEventListener<K>
+  ): { dispose(): void } {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return { dispose: () => listeners.delete(listener) };
+  }
+
+  private emit<K extends keyof PlutoManagerEvents>(
+    event: K,
+    payload: PlutoManagerEvents[K]
+  ): void {
+    const listeners = this.listeners.get(event) ?? [];
+    for (const listener of [...listeners] as PlutoManagerEventListener<K>[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.log(`Error in ${event} listener: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Get the port of the local Pluto server. This is the port actually in use,
+   * which differs from the configured one when a free port was selected.
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Update the Julia launch options (applied the next time the server starts)
+   */
+  setServerOptions(options: JuliaServerOptions): void {
+    this.serverOptions = options;
+  }
+
+  /**
+   * Get the Julia launch options
+   */
+  getServerOptions(): JuliaServerOptions {
+    return this.serverOptions;
+  }
+
+  /**
+   * Configure the server URL (scheme, host, port, path prefix and optional
+   * `?secret=`) to connect to instead of launching a local server. An empty
+   * URL means the local server; the secret also applies to it when it was
+   * launched outside the extension.
+   */
+  setServerUrl(url: string | undefined, secret?: string): void {
+    if (url) {
+      const parsed = parseServerUrl(url);
+      this.remoteUrl = parsed.url;
+      this.configuredSecret = secret || parsed.secret;
+    } else {
+      this.remoteUrl = undefined;
+      this.configuredSecret = secret || undefined;
+    }
+  }
+
+  /**
+   * Get the base URL of the Pluto server (without the secret)
+   */
+  getServerUrl(): string {
+    return this.connectedUrl ?? this.remoteUrl ?? this.serverUrl;
+  }
+
+  /**
+   * Get the Julia and Pluto versions of the local server. Unknown for remote
+   * servers, which do not report them.
+   */
+  getServerVersions(): ServerVersions | undefined {
+    return this.serverVersions;
+  }
+
+  /**
+   * Check if a server URL is configured instead of a local server
+   */
+  isRemote(): boolean {
+    return !!this.remoteUrl;
   }
 
   /**
@@ -39,26 +277,90 @@ export class PlutoManager {
   }
 
   /**
-   * Log message to output channel
+   * Log message to output channel (secrets in URLs are redacted)
    */
   log(message: string): void {
-    this.outputChannel.appendLine(message);
+    this.outputChannel.appendLine(redactSecret(message));
+  }
+
+  /**
+   * Get the most recent errors and warnings printed by the server, oldest
+   * first
+   */
+  getRecentDiagnostics(): ServerDiagnostic[] {
+    return [...this.recentDiagnostics];
+  }
+
+  /**
+   * Log server output and report the diagnostics found in it. Messages that
+   * may continue on later lines are completed once the output goes quiet.
+   */
+  private handleServerOutput(text: string, prefix: string = ""): void {
+    // Log complete lines only, so a secret split across chunks is redacted
+    const lines = (this.partialOutput.text + text).split(/\r?\n/);
+    this.partialOutput = { prefix, text: lines.pop() ?? "" };
+    if (lines.length > 0) {
+      this.log(lines.map((line) => `${prefix}${line}`).join("\n"));
+    }
+    this.recordDiagnostics(this.outputParser.push(text));
+
+    clearTimeout(this.outputFlushTimer);
+    this.outputFlushTimer = setTimeout(() => this.flushServerOutput(), 250);
+  }
+
+  private flushServerOutput(): void {
+    clearTimeout(this.outputFlushTimer);
+    this.outputFlushTimer = undefined;
+    if (this.partialOutput.text) {
+      this.log(`${this.partialOutput.prefix}${this.partialOutput.text}`);
+      this.partialOutput = { prefix: "", text: "" };
+    }
+    this.recordDiagnostics(this.outputParser.flush());
+  }
+
+  private recordDiagnostics(diagnostics: ServerDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity !== "info") {
+        this.recentDiagnostics.push(diagnostic);
+        if (this.recentDiagnostics.length > MAX_RECENT_DIAGNOSTICS) {
+          this.recentDiagnostics.shift();
+        }
+      }
+      this.emit("serverDiagnostic", diagnostic);
+    }
   }
 
   /**
-   * Connect to an existing Pluto server without starting a new one
+   * Get the browser URL for a notebook, including the access secret
    */
-  async connect(): Promise<void> {
+  getNotebookUrl(notebookId: string): string {
+    return buildNotebookUrl(this.getServerUrl(), notebookId, this.secret);
+  }
+
+  /**
+   * Connect to an existing Pluto server without starting a new one. A given
+   * URL is used for this connection only and leaves the configured server
+   * unchanged.
+   */
+  async connect(url?: string, secret?: string): Promise<void> {
     if (this.isConnected()) {
       this.log("Already connected to a Pluto server");
       return;
     }
 
-    this.log(`Connecting to Pluto server at ${this.serverUrl}...`);
+    const target = url ? parseServerUrl(url) : undefined;
+    const serverUrl = target?.url ?? this.getServerUrl();
+    this.log(`Connecting to Pluto server at ${serverUrl}...`);
 
     try {
-      this.host = new Host(this.serverUrl);
+      if (!(await pingServer(serverUrl))) {
+        throw new Error(`Pluto server at ${serverUrl} is not reachable`);
+      }
+      this.connectedUrl = target?.url;
+      this.secret = target ? secret || target.secret : this.configuredSecret;
+      this.host = new Host(serverUrl, this.secret);
       this.log("Connected to Pluto server successfully!");
+      this.emit("serverReady", { url: serverUrl, remote: true });
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -68,47 +370,57 @@ export class PlutoManager {
   }
 
   /**
-   * Start Pluto server
+   * Start Pluto server. Aborting the signal kills a server that is still
+   * starting up.
    */
-  async start(): Promise<void> {
+  async start(signal?: AbortSignal): Promise<void> {
     if (this.juliaProcess) {
       this.log("Pluto server is already running");
       return;
     }
 
-    this.log(`Starting Pluto server on port ${this.port}...`);
+    // A configured server URL is connected to, never launched
+    if (this.isRemote()) {
+      await this.connect();
+      return;
+    }
 
     try {
-      this.juliaProcess = await this.runServer(this.port);
+      const { julia, port } = await this.launchServer(signal);
+      this.juliaProcess = julia;
+      this.startedAt = Date.now();
+      this.port = port;
+      this.serverUrl = `http://localhost:${port}`;
       this.log("Pluto server started successfully!");
 
-      // Pipe Julia stdout to output channel
+      // Pipe Julia stdout and stderr to output channel
       this.juliaProcess.stdout?.on("data", (data) => {
-        this.log(data.toString());
+        this.handleServerOutput(data.toString());
       });
-
-      // Pipe Julia stderr to output channel
       this.juliaProcess.stderr?.on("data", (data) => {
-        this.log(data.toString());
+        this.handleServerOutput(data.toString());
       });
 
       // Handle process exit
-      this.juliaProcess.on("exit", (code) => {
-        this.log(`Pluto server exited with code ${code ?? "unknown"}`);
+      this.juliaProcess.on("exit", (code, exitSignal) => {
+        this.flushServerOutput();
+        this.log(
+          `Pluto server exited with code ${code ?? exitSignal ?? "unknown"}`
+        );
 
-        // Show warning if server exits unexpectedly
-        if (code !== 0 && code !== null) {
-          this.outputChannel.showWarningMessage(
-            `Pluto server stopped unexpectedly with exit code ${code}`
-          );
+        // stop() detaches the process first, so any other exit is a crash
+        if (this.juliaProcess !== julia) {
+          return;
         }
-
-        this.juliaProcess = undefined;
-        this.host = undefined;
+        // Notebook processes of the crashed server would be left orphaned
+        signalProcessTree(julia, "SIGKILL");
+        this.handleCrash(code, exitSignal);
       });
 
       // Initialize host connection
-      this.host = new Host(this.serverUrl);
+      this.host = new Host(this.serverUrl, this.secret);
+      this.reportServerVersions();
+      this.emit("serverReady", { url: this.serverUrl, remote: false });
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -118,28 +430,208 @@ export class PlutoManager {
   }
 
   /**
-   * Stop Pluto server
+   * Log the versions of the local server and warn when they are unsupported
    */
-  async stop(): Promise<void> {
-    if (!this.juliaProcess) {
-      this.log("Pluto server is not running");
+  private reportServerVersions(): void {
+    if (!this.serverVersions) {
+      this.log("Could not detect the Julia and Pluto versions of the server");
       return;
     }
 
-    this.log("Stopping Pluto server...");
+    const { julia, pluto } = this.serverVersions;
+    this.log(`Julia ${julia}, Pluto ${pluto}`);
+    for (const warning of checkServerVersions(this.serverVersions)) {
+      this.log(`Warning: ${warning}`);
+      this.outputChannel.showWarningMessage(warning);
+    }
+  }
 
-    // Close all workers
-    for (const worker of this.workers.values()) {
+  /**
+   * Clean up after the server process exited unexpectedly and, if enabled,
+   * schedule a restart with exponential backoff
+   */
+  private handleCrash(
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    // Workers of the dead server are stale; remember which notebooks were open
+    const notebookPaths = [...this.workers.keys()];
+    for (const [notebookPath, worker] of this.workers.entries()) {
       worker.close();
+      this.emit("workerDisconnected", {
+        notebookPath,
+        notebookId: worker.notebook_id,
+      });
     }
     this.workers.clear();
+    this.lastActivity.clear();
+    this.attachedNotebooks.clear();
+    this.busyNotebooks.clear();
+    this.ephemeralRuns.clear();
+    this.ephemeralCells.clear();
+    this.juliaProcess = undefined;
+    this.host = undefined;
+    this.secret = undefined;
+    this.serverVersions = undefined;
+
+    // A server that ran for a while before crashing starts a fresh series
+    if (Date.now() - this.startedAt > 60_000) {
+      this.restartAttempts = 0;
+    }
+
+    const willRestart =
+      this.autoRestart && this.restartAttempts < this.maxRestartAttempts;
+    this.emit("serverCrashed", { code, signal, willRestart });
+
+    const reason = signal ? `signal ${signal}` : `exit code ${code}`;
+    if (!this.autoRestart) {
+      this.outputChannel.showWarningMessage(
+        `Pluto server stopped unexpectedly (${reason})`
+      );
+      return;
+    }
+
+    this.scheduleRestart(notebookPaths, reason);
+  }
+
+  private scheduleRestart(notebookPaths: string[], reason: string): void {
+    if (this.restartAttempts >= this.maxRestartAttempts) {
+      this.outputChannel.showWarningMessage(
+        `Pluto server stopped unexpectedly (${reason}) and was not restarted after ${this.restartAttempts} attempts`
+      );
+      return;
+    }
+
+    const delay = Math.min(1000 * 2 ** this.restartAttempts, 30_000);
+    this.restartAttempts++;
+    this.log(
+      `Restarting Pluto server in ${delay / 1000}s (attempt ${this.restartAttempts} of ${this.maxRestartAttempts})...`
+    );
 
-    // Kill Julia process
-    this.juliaProcess.kill();
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = undefined;
+      try {
+        await this.start();
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.scheduleRestart(notebookPaths, errorMessage);
+        return;
+      }
+      await this.restoreWorkers(notebookPaths);
+    }, delay);
+  }
+
+  /**
+   * Re-create workers for notebooks that were open before a crash. Listeners
+   * pick up the new workers through the workerCreated event.
+   */
+  private async restoreWorkers(notebookPaths: string[]): Promise<void> {
+    for (const notebookPath of notebookPaths) {
+      try {
+        if (await this.getWorker(notebookPath)) {
+          this.log(`Restored notebook session for ${notebookPath}`);
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.log(`Failed to restore ${notebookPath}: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * Stop Pluto server
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.restartTimer);
+    this.restartTimer = undefined;
+
+    if (!this.juliaProcess) {
+      if (this.isConnected()) {
+        this.disconnect();
+      } else {
+        this.log("Pluto server is not running");
+      }
+      return;
+    }
+
+    this.log("Stopping Pluto server...");
+
+    // Detach the process first so its exit is not seen as a crash
+    const julia = this.juliaProcess;
     this.juliaProcess = undefined;
+
+    // Let Pluto stop the notebook processes, which would otherwise be orphaned
+    await this.shutdownNotebooks();
+    this.closeAllWorkers();
     this.host = undefined;
+    this.secret = undefined;
+    this.serverVersions = undefined;
+
+    if (!(await terminateProcessTree(julia))) {
+      this.log(`Pluto server (pid ${julia.pid}) did not exit after SIGKILL`);
+    }
 
     this.log("Pluto server stopped");
+    this.emit("serverStopped", { url: this.serverUrl });
+  }
+
+  /**
+   * Ask the local server to shut down all running notebooks, giving up after
+   * `timeoutMs`
+   */
+  private async shutdownNotebooks(timeoutMs: number = 5000): Promise<void> {
+    const host = this.host;
+    if (!host) {
+      return;
+    }
+
+    const shutdownAll = async () => {
+      const running: Array<{ notebook_id: string }> =
+        await host.getRunningNotebooks();
+      await Promise.allSettled(
+        running.map(async ({ notebook_id }) => {
+          const worker = await host.workerFor(notebook_id);
+          await worker.shutdown();
+        })
+      );
+    };
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        this.log("Timed out waiting for notebooks to shut down");
+        resolve();
+      }, timeoutMs);
+    });
+
+    try {
+      await Promise.race([shutdownAll(), timeout]);
+    } catch (error) {
+      this.log(`Failed to shut down notebooks: ${error}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Close all workers and drop the connection to a server we did not launch
+   */
+  private disconnect(): void {
+    this.closeAllWorkers();
+    this.host = undefined;
+    this.secret = undefined;
+    this.serverVersions = undefined;
+    this.log("Disconnected from Pluto server");
+    this.emit("serverStopped", { url: this.getServerUrl() });
+    this.connectedUrl = undefined;
+  }
+
+  private closeAllWorkers(): void {
+    for (const notebookPath of [...this.workers.keys()]) {
+      this.closeNotebook(notebookPath);
+    }
   }
 
   /**
@@ -151,31 +643,164 @@ export class PlutoManager {
     await this.start();
   }
 
-  private runServer(port: number = 1234): Promise<ChildProcess> {
+  /**
+   * Run the server on the selected port. Servers of other folders or
+   * kernels may be starting at the same time, so when one of them took the
+   * port meanwhile the next free port is tried once.
+   */
+  private async launchServer(
+    signal?: AbortSignal
+  ): Promise<{ julia: ChildProcess; port: number }> {
+    const port = await this.selectPort();
+    this.log(`Starting Pluto server on port ${port}...`);
+    this.emit("serverStarting", { port });
+
+    try {
+      return { julia: await this.runServer(port, signal), port };
+    } catch (error) {
+      const retryPort =
+        error instanceof PortInUseError && this.autoSelectPort
+          ? await findFreePort(port + 1)
+          : undefined;
+      if (retryPort === undefined) {
+        throw error;
+      }
+      this.log(`Port ${port} was taken meanwhile, using port ${retryPort}`);
+      this.emit("serverStarting", { port: retryPort });
+      return {
+        julia: await this.runServer(retryPort, signal),
+        port: retryPort,
+      };
+    }
+  }
+
+  /**
+   * Pick the port for a new server: the preferred port when it is free,
+   * otherwise the next free one (if enabled)
+   */
+  private async selectPort(): Promise<number> {
+    if (await isPortAvailable(this.preferredPort)) {
+      return this.preferredPort;
+    }
+    if (!this.autoSelectPort) {
+      throw new PortInUseError(this.preferredPort);
+    }
+
+    const port = await findFreePort(this.preferredPort + 1);
+    if (port === undefined) {
+      throw new PortInUseError(this.preferredPort);
+    }
+    this.log(`Port ${this.preferredPort} is in use, using port ${port}`);
+    return port;
+  }
+
+  private runServer(
+    port: number = 1234,
+    signal?: AbortSignal
+  ): Promise<ChildProcess> {
+    // Fail fast on invalid settings or a missing executable, before anything
+    // is spawned
+    assertServerOptions(this.serverOptions);
+    if (signal?.aborted) {
+      return Promise.reject(new ServerStartCancelledError());
+    }
+
+    const { command, args, env } = buildServerCommand(
+      this.serverOptions,
+      port
+    );
+    const serverUrl = `http://localhost:${port}`;
+    this.log(`[Server Init] ${command} ${args.join(" ")}`);
+    this.outputParser = new ServerOutputParser();
+
     return new Promise((resolve, reject) => {
-      const julia = spawn("julia", [
-        "-e",
-        `using Pluto;Pluto.run(port=${port};require_secret_for_open_links=false, require_secret_for_access=false, launch_browser=false)`,
-      ]);
-
-      julia.stdout?.on("data", (data) => {
-        this.log(`[Server Init] ${data}`);
-        if (data.toString().includes("Go to")) {
+      let settled = false;
+      let secret: string | undefined;
+      let versions: ServerVersions | undefined;
+      let pollTimer: NodeJS.Timeout | undefined;
+      let timeoutTimer: NodeJS.Timeout | undefined;
+
+      const onAbort = () => settle(new ServerStartCancelledError());
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearInterval(pollTimer);
+        clearTimeout(timeoutTimer);
+        signal?.removeEventListener("abort", onAbort);
+        if (error) {
+          this.flushServerOutput();
+          void terminateProcessTree(julia);
+          reject(error);
+        } else {
+          this.secret = secret;
+          this.serverVersions = versions;
           resolve(julia);
         }
-      });
+      };
 
-      julia.stderr?.on("data", (data) => {
-        this.log(`[Server Init] ${data}`);
-        if (data.toString().includes("Go to")) {
-          resolve(julia);
+      // Own process group, so stopping the server also stops the notebook
+      // processes it launched. The server exits when its stdin closes, e.g.
+      // when the extension host is killed.
+      const julia = spawnProcessTree(command, args, { env });
+
+      // Chunks may split lines, so match against everything seen so far
+      let initOutput = "";
+      const onOutput = (data: Buffer) => {
+        const text = data.toString();
+        if (settled) {
+          return;
+        }
+        this.handleServerOutput(text, "[Server Init] ");
+        initOutput += text;
+        secret ??= extractSecret(initOutput);
+        versions ??= parseServerVersions(initOutput);
+        if (/Package Pluto not found/.test(initOutput)) {
+          settle(new PlutoNotInstalledError(this.serverOptions.project));
+        } else if (/EADDRINUSE|address already in use/i.test(initOutput)) {
+          // Another process took the port between the check and the launch
+          settle(new PortInUseError(port));
         }
+      };
+
+      julia.stdout?.on("data", onOutput);
+      julia.stderr?.on("data", onOutput);
+
+      julia.on("error", (error: NodeJS.ErrnoException) => {
+        this.log(`[Server Init Error] ${error.message}`);
+        settle(
+          error.code === "ENOENT" ? new JuliaNotFoundError(command) : error
+        );
       });
 
-      julia.on("error", (error) => {
-        this.outputChannel.appendLine(`[Server Init Error] ${error.message}`);
-        setTimeout(() => reject(error), 1000);
+      julia.on("exit", (code, exitSignal) => {
+        const errorLine = initOutput
+          .split(/\r?\n/)
+          .find((line) => line.startsWith("ERROR:"));
+        settle(new JuliaProcessExitedError(code, exitSignal, errorLine));
       });
+
+      // The server is ready once it printed its secret and answers HTTP
+      // requests. Only the secret shows that this process is the one
+      // listening, not another server that already held the port.
+      let polling = false;
+      pollTimer = setInterval(async () => {
+        if (polling || !secret) {
+          return;
+        }
+        polling = true;
+        if (await pingServer(serverUrl)) {
+          settle();
+        }
+        polling = false;
+      }, 500);
+
+      timeoutTimer = setTimeout(
+        () => settle(new ServerStartTimeoutError(this.startupTimeout)),
+        this.startupTimeout * 1000
+      );
+      signal?.addEventListener("abort", onAbort);
     });
   }
 
@@ -190,29 +815,262 @@ export class PlutoManager {
 
     // Check if we already have a worker for this notebook
     let worker = this.workers.get(notebookPath);
+    const isNew = !worker;
+    let attached = false;
 
     if (!worker && this.host) {
-      // Read notebook content from file
+      // Share the session if the notebook is already running on the server,
+      // e.g. after a window reload or when it was opened in the browser
+      worker = await this.attachToRunningNotebook(notebookPath);
+      attached = !!worker;
+    }
+
+    let processOptions: NotebookProcessOptions | undefined;
+    if (!worker && this.host) {
+      // Read notebook content from file. The content is uploaded rather than
+      // opened by path, so remote servers do not need access to the file.
       let notebookContent: string;
       try {
         const fileContent = await readFile(notebookPath);
         notebookContent = new TextDecoder().decode(fileContent);
-        worker = await this.host.createWorker(notebookContent.trim());
-        this.workers.set(notebookPath, worker);
       } catch (error) {
         this.log(`Error reading notebook file: ${error}`);
         throw new Error(`Cannot create worker: failed to read notebook file`);
       }
+
+      processOptions = await this.resolveProcessOptions(
+        notebookPath,
+        notebookContent
+      );
+      // Make room before a new notebook process is started
+      await this.evictLeastRecentlyUsed();
+      worker = await this.host.createWorker(notebookContent.trim(), {
+        compiler_options: processOptions.compilerOptions,
+      });
+      this.workers.set(notebookPath, worker);
     }
 
+    if (!worker) {
+      return undefined;
+    }
+    const workerEvent = { notebookPath, notebookId: worker.notebook_id };
+
     // Ensure worker is connected
-    if (worker && !worker.connected) {
+    if (!worker.connected) {
       await worker.connect();
+      this.emit("workerConnected", workerEvent);
+    }
+
+    if (processOptions) {
+      await this.applyProcessEnv(notebookPath, worker, processOptions);
+    }
+
+    this.markActive(notebookPath);
+    if (isNew) {
+      if (attached) {
+        this.attachedNotebooks.add(notebookPath);
+      }
+      // Any update counts as activity. A cell may run for a long time
+      // without updates, so busy notebooks are remembered as well.
+      const created = worker;
+      created.onUpdate((event: UpdateEvent) => {
+        if (event.notebook) {
+          this.cellOrders.set(created, event.notebook.cell_order);
+        }
+        const runs = this.ephemeralRuns.get(created);
+        if (runs && event.notebook) {
+          claimEphemeralCells(
+            runs,
+            event.notebook.cell_order,
+            this.ephemeralCells
+          );
+        }
+        if (this.workers.get(notebookPath) === created) {
+          this.markActive(notebookPath);
+          if (hasActiveCells(event.notebook?.cell_results)) {
+            this.busyNotebooks.add(notebookPath);
+          } else {
+            this.busyNotebooks.delete(notebookPath);
+          }
+        }
+      });
+      this.emit("workerCreated", { ...workerEvent, worker, attached });
     }
 
     return worker;
   }
 
+  /**
+   * Resolve the process options of a notebook from the settings and its
+   * frontmatter
+   */
+  private async resolveProcessOptions(
+    notebookPath: string,
+    notebookContent: string
+  ): Promise<NotebookProcessOptions> {
+    return resolveNotebookProcessOptions(
+      notebookPath,
+      this.notebookProcessSettings,
+      parseFrontmatterProcessOptions(notebookContent)
+    );
+  }
+
+  /**
+   * Set the environment variables of a new notebook process. Pluto starts
+   * notebook processes with the server's environment and runs the notebook
+   * right away, so the variables can only be set afterwards.
+   */
+  private async applyProcessEnv(
+    notebookPath: string,
+    worker: Worker,
+    options: NotebookProcessOptions
+  ): Promise<void> {
+    if (options.envFile) {
+      await this.applyEnvFile(notebookPath, worker, options.envFile);
+    }
+    // Variables set explicitly take precedence over the file
+    if (Object.keys(options.env).length > 0) {
+      await this.executeCodeEphemeral(worker, buildEnvSetupCode(options.env));
+    }
+  }
+
+  /**
+   * Set the variables of a `.env` file in a notebook process. They are
+   * handed over in a private temporary file, since a cell's code can be seen
+   * in the browser and by MCP clients.
+   */
+  private async applyEnvFile(
+    notebookPath: string,
+    worker: Worker,
+    envFile: string
+  ): Promise<void> {
+    const envFilePath = resolvePath(dirname(notebookPath), envFile);
+    if (this.isRemote()) {
+      this.outputChannel.showWarningMessage(
+        `Env file ${envFilePath} is not loaded for ${notebookPath}: it is only supported on a local Pluto server`
+      );
+      return;
+    }
+
+    let fileEnv: Record<string, string>;
+    try {
+      fileEnv = parseDotEnv(await readFile(envFilePath, "utf8"));
+    } catch (error) {
+      this.log(`Failed to read env file ${envFilePath}: ${error}`);
+      this.outputChannel.showWarningMessage(
+        `Could not read env file ${envFilePath} for ${notebookPath}`
+      );
+      return;
+    }
+
+    const transferPath = join(tmpdir(), `pluto-env-${randomUUID()}`);
+    try {
+      await writeFile(transferPath, formatEnvFile(fileEnv), { mode: 0o600 });
+      await this.executeCodeEphemeral(
+        worker,
+        buildEnvFileSetupCode(transferPath)
+      );
+    } finally {
+      await rm(transferPath, { force: true });
+    }
+  }
+
+  private markActive(notebookPath: string): void {
+    this.lastActivity.set(notebookPath, Date.now());
+  }
+
+  /**
+   * Activity of the notebooks whose process was started by the extension.
+   * Sessions we only attached to belong to someone else and are never shut
+   * down by us.
+   */
+  private ownedNotebooks(): Map<string, WorkerActivity> {
+    const owned = new Map<string, WorkerActivity>();
+    for (const notebookPath of this.workers.keys()) {
+      if (!this.attachedNotebooks.has(notebookPath)) {
+        owned.set(notebookPath, {
+          lastActivity: this.lastActivity.get(notebookPath) ?? 0,
+          busy: this.busyNotebooks.has(notebookPath),
+        });
+      }
+    }
+    return owned;
+  }
+
+  /**
+   * Shut down workers without activity for longer than the idle timeout
+   */
+  private async closeIdleWorkers(): Promise<void> {
+    const cutoff = Date.now() - this.workerIdleTimeout * 60_000;
+    for (const notebookPath of findIdleNotebooks(
+      this.ownedNotebooks(),
+      cutoff
+    )) {
+      this.log(`Shutting down idle notebook: ${notebookPath}`);
+      await this.shutdownNotebook(notebookPath, "idle");
+    }
+  }
+
+  /**
+   * Shut down the least recently used workers until another one fits within
+   * the worker limit
+   */
+  private async evictLeastRecentlyUsed(): Promise<void> {
+    while (this.maxWorkers > 0) {
+      const owned = this.ownedNotebooks();
+      if (owned.size < this.maxWorkers) {
+        return;
+      }
+      const oldest = findLeastRecentlyUsed(owned);
+      if (oldest === undefined) {
+        this.log(
+          `All ${owned.size} notebook processes are busy, starting another one`
+        );
+        return;
+      }
+      this.log(
+        `Shutting down ${oldest} to stay within ${this.maxWorkers} notebook processes`
+      );
+      await this.shutdownNotebook(oldest, "evicted");
+    }
+  }
+
+  /**
+   * Find a notebook running on the server for the given file and attach a
+   * worker to it. Only local servers are searched, since paths reported by a
+   * remote server refer to its own file system.
+   */
+  private async attachToRunningNotebook(
+    notebookPath: string
+  ): Promise<Worker | undefined> {
+    if (!this.host || this.isRemote()) {
+      return undefined;
+    }
+
+    try {
+      const target = normalizeNotebookPath(notebookPath);
+      const running = await this.host.getRunningNotebooks();
+      const match = running.find(
+        (notebook: { path: string }) =>
+          normalizeNotebookPath(notebook.path) === target
+      );
+      if (!match) {
+        return undefined;
+      }
+
+      const worker = await this.host.workerFor(match.notebook_id);
+      this.workers.set(notebookPath, worker);
+      this.log(
+        `Attached to running notebook session ${match.notebook_id} for ${notebookPath}`
+      );
+      return worker;
+    } catch (error) {
+      // Fall back to creating a new session
+      this.log(`Could not look up running notebooks: ${error}`);
+      return undefined;
+    }
+  }
+
   /**
    * Execute a cell
    */
@@ -239,6 +1097,17 @@ export class PlutoManager {
     }
   }
 
+  /**
+   * Update the code of a cell without running it
+   */
+  async updateCellCode(
+    worker: Worker,
+    cellId: string,
+    code: string
+  ): Promise<void> {
+    await worker.updateSnippetCode(cellId, code, false);
+  }
+
   /**
    * Add a new cell to the notebook
    */
@@ -247,6 +1116,14 @@ export class PlutoManager {
     return cellId;
   }
 
+  /**
+   * Move a cell to a new index in the notebook, keeping its ID and results.
+   * Like in Pluto, the index counts in the order from before the move.
+   */
+  async moveCell(worker: Worker, cellId: string, index: number): Promise<void> {
+    await worker.moveSnippets([cellId], index);
+  }
+
   /**
    * Delete a cell from the notebook
    */
@@ -265,12 +1142,57 @@ export class PlutoManager {
    * Close connection to a notebook
    * const notebookPath = notebookUri.fsPath;
    */
-  closeNotebook(notebookPath: string): void {
+  closeNotebook(
+    notebookPath: string,
+    reason: WorkerCloseReason = "requested"
+  ): void {
     const worker = this.workers.get(notebookPath);
 
     if (worker) {
       worker.close();
       this.workers.delete(notebookPath);
+      this.lastActivity.delete(notebookPath);
+      this.busyNotebooks.delete(notebookPath);
+      this.attachedNotebooks.delete(notebookPath);
+      this.emit("workerClosed", {
+        notebookPath,
+        notebookId: worker.notebook_id,
+        reason,
+      });
+    }
+  }
+
+  /**
+   * Stop the notebook process on the server and close the worker. The
+   * notebook is started again from its file by the next `getWorker` call.
+   */
+  async shutdownNotebook(
+    notebookPath: string,
+    reason: WorkerCloseReason = "requested"
+  ): Promise<void> {
+    const worker = this.workers.get(notebookPath);
+    if (!worker) {
+      return;
+    }
+
+    try {
+      await worker.shutdown();
+    } catch (error) {
+      this.log(`Failed to shut down notebook ${notebookPath}: ${error}`);
+    }
+    this.closeNotebook(notebookPath, reason);
+  }
+
+  /**
+   * Release the worker of a notebook closed in the editor. Sessions started
+   * by the extension are shut down; sessions that were already running on
+   * the server, e.g. opened in the browser, are only disconnected from.
+   */
+  async releaseNotebook(notebookPath: string): Promise<void> {
+    if (this.attachedNotebooks.has(notebookPath)) {
+      this.closeNotebook(notebookPath);
+    } else {
+      await this.shutdownNotebook(notebookPath);
     }
   }
 
@@ -296,9 +1218,18 @@ export class PlutoManager {
     worker: Worker,
     code: string
   ): Promise<CellResultData> {
+    // Recognize the temporary cell as soon as it shows up, so it is not
+    // synced to VS Code
+    const cellOrder = this.cellOrders.get(worker);
+    const run: EphemeralRun = { before: cellOrder && new Set(cellOrder) };
+    const runs = this.ephemeralRuns.get(worker) ?? [];
+    runs.push(run);
+    this.ephemeralRuns.set(worker, runs);
+
     try {
       // Execute code at index 0 (creates a temporary cell)
       const result = await worker.waitSnippet(0, code);
+      this.ephemeralCells.add(result.cell_id);
 
       // Delete the cell immediately after execution
       try {
@@ -316,21 +1247,45 @@ export class PlutoManager {
         error instanceof Error ? error.message : String(error);
       this.log(`[Ephemeral Execution Error] ${errorMessage}`);
       throw error;
+    } finally {
+      runs.splice(runs.indexOf(run), 1);
+      if (runs.length === 0) {
+        this.ephemeralRuns.delete(worker);
+      }
     }
   }
 
+  /**
+   * Whether a cell is a temporary one from executeCodeEphemeral
+   */
+  isEphemeralCell(cellId: string): boolean {
+    return this.ephemeralCells.has(cellId);
+  }
+
   /**
    * Close all notebook connections
    */
   dispose(): void {
-    for (const worker of this.workers.values()) {
-      worker.close();
-    }
-    this.workers.clear();
+    clearTimeout(this.restartTimer);
+    clearInterval(this.idleTimer);
+    clearTimeout(this.outputFlushTimer);
+    this.closeAllWorkers();
+    this.listeners.clear();
 
-    // Kill Julia process
-    if (this.juliaProcess) {
-      this.juliaProcess.kill();
+    // Kill Julia process (detached first so the exit is not seen as a crash).
+    // Disposal cannot wait, so the process tree is terminated in the background.
+    const julia = this.juliaProcess;
+    this.juliaProcess = undefined;
+    if (julia) {
+      void terminateProcessTree(julia);
     }
   }
 }
+
+/**
+ * Normalize a notebook path for comparison with paths reported by Pluto
+ */
+function normalizeNotebookPath(notebookPath: string): string {
+  const resolved = resolvePath(notebookPath);
+  return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+}
@@ -0,0 +1,45 @@
+import type { Worker } from "@plutojl/rainbow";
+import type { ServerDiagnostic } from "./serverDiagnostics.ts";
+
+/**
+ * Lifecycle events emitted by PlutoManager, keyed by event name
+ */
+export interface PlutoManagerEvents {
+  /** A local server is being launched */
+  serverStarting: { port: number };
+  /** The server is ready (launched locally or connected to) */
+  serverReady: { url: string; remote: boolean };
+  /** The server was stopped or disconnected on request */
+  serverStopped: { url: string };
+  /** The server process exited unexpectedly */
+  serverCrashed: {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+    willRestart: boolean;
+  };
+  /** An error, warning or info message was recognized in the server output */
+  serverDiagnostic: ServerDiagnostic;
+  /** A worker was created, or attached to an already running notebook */
+  workerCreated: WorkerEvent & { worker: Worker; attached: boolean };
+  /** A worker (re)connected to its notebook session */
+  workerConnected: WorkerEvent;
+  /** A worker lost its connection because the server went away */
+  workerDisconnected: WorkerEvent;
+  /** A worker was closed */
+  workerClosed: WorkerEvent & { reason: WorkerCloseReason };
+}
+
+export interface WorkerEvent {
+  notebookPath: string;
+  notebookId: string;
+}
+
+/**
+ * Why a worker was closed: on request, or shut down automatically because it
+ * was idle or to stay within the worker limit
+ */
+export type WorkerCloseReason = "requested" | "idle" | "evicted";
+
+export type PlutoManagerEventListener<K extends keyof PlutoManagerEvents> = (
+  event: PlutoManagerEvents[K]
+) => void;
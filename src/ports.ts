@@ -0,0 +1,38 @@
+import { createServer } from "net";
+
+/**
+ * Check whether a TCP port can be bound on the given host
+ */
+export function isPortAvailable(
+  port: number,
+  host: string = "127.0.0.1"
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = createServer();
+    server.once("error", () => resolve(false));
+    server.once("listening", () => {
+      server.close(() => resolve(true));
+    });
+    server.listen(port, host);
+  });
+}
+
+/**
+ * Find the first free port starting at `startPort`, trying `attempts` ports
+ * in sequence. Returns undefined when none of them is free.
+ */
+export async function findFreePort(
+  startPort: number,
+  attempts: number = 50,
+  host: string = "127.0.0.1"
+): Promise<number | undefined> {
+  for (let port = startPort; port < startPort + attempts; port++) {
+    if (port > 65535) {
+      break;
+    }
+    if (await isPortAvailable(port, host)) {
+      return port;
+    }
+  }
+  return undefined;
+}
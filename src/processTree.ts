@@ -0,0 +1,111 @@
+import { ChildProcess, SpawnOptions, execFile, spawn } from "child_process";
+
+/**
+ * Whether child processes are started in their own process group, so the
+ * whole tree can be signalled at once (not supported on Windows)
+ */
+export const USE_PROCESS_GROUPS = process.platform !== "win32";
+
+/**
+ * Spawn a process in its own process group, with its stdin piped from this
+ * process. A process group outlives its parent, so the process is expected to
+ * exit once stdin closes, which also happens when this process dies without
+ * stopping it.
+ */
+export function spawnProcessTree(
+  command: string,
+  args: string[],
+  options: SpawnOptions = {}
+): ChildProcess {
+  return spawn(command, args, {
+    ...options,
+    detached: USE_PROCESS_GROUPS,
+    stdio: "pipe",
+  });
+}
+
+/**
+ * Whether the process has already exited
+ */
+export function hasExited(child: ChildProcess): boolean {
+  return child.exitCode !== null || child.signalCode !== null;
+}
+
+/**
+ * Wait until the process exits. Resolves to false when it is still running
+ * after `timeoutMs`.
+ */
+export function waitForExit(
+  child: ChildProcess,
+  timeoutMs: number
+): Promise<boolean> {
+  if (hasExited(child)) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const onExit = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    const timer = setTimeout(() => {
+      child.off("exit", onExit);
+      resolve(false);
+    }, timeoutMs);
+    child.once("exit", onExit);
+  });
+}
+
+/**
+ * Send a signal to the process and all of its descendants. Falls back to
+ * signalling only the process when it is not a process group leader.
+ */
+export function signalProcessTree(
+  child: ChildProcess,
+  signal: NodeJS.Signals
+): void {
+  if (child.pid === undefined) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    if (hasExited(child)) {
+      return;
+    }
+    // taskkill has no graceful mode for console processes, /T covers the tree
+    execFile("taskkill", ["/pid", String(child.pid), "/T", "/F"], () => {
+      // The process may already be gone
+    });
+    return;
+  }
+
+  try {
+    // A negative PID addresses the process group, which outlives its leader
+    // while any descendant is still running
+    process.kill(-child.pid, signal);
+  } catch {
+    if (!hasExited(child)) {
+      child.kill(signal);
+    }
+  }
+}
+
+/**
+ * Terminate the process and its descendants: SIGTERM first, then SIGKILL if
+ * it is still running after `graceMs`. Resolves once the process has exited
+ * (or could not be killed within a second timeout).
+ */
+export async function terminateProcessTree(
+  child: ChildProcess,
+  graceMs: number = 5000
+): Promise<boolean> {
+  signalProcessTree(child, "SIGTERM");
+  if (await waitForExit(child, graceMs)) {
+    // Descendants that ignored SIGTERM would outlive the group leader
+    signalProcessTree(child, "SIGKILL");
+    return true;
+  }
+
+  signalProcessTree(child, "SIGKILL");
+  return waitForExit(child, graceMs);
+}
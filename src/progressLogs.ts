@@ -0,0 +1,99 @@
+/**
+ * A log message as sent by Pluto, with values formatted as `[body, mime]`
+ */
+export interface PlutoLogEntry {
+  level: string;
+  msg: [string, string];
+  id?: string;
+  kwargs?: [string, [string, string]][];
+}
+
+/**
+ * State of a progress bar, as shown in the cell output
+ */
+export interface ProgressState {
+  id: string;
+  name: string;
+  /** Between 0 and 1, undefined while the total is unknown */
+  fraction?: number;
+  done: boolean;
+  /** Estimated seconds left */
+  eta?: number;
+}
+
+// `ProgressLogging.ProgressLevel`
+export const PROGRESS_LOG_LEVEL = "LogLevel(-1)";
+
+/**
+ * Whether a log message is a progress update from ProgressLogging.jl
+ */
+export function isProgressLog(log: PlutoLogEntry): boolean {
+  return (
+    log.level === PROGRESS_LOG_LEVEL &&
+    (log.kwargs ?? []).some(([name]) => name === "progress")
+  );
+}
+
+/**
+ * Follows the progress updates of a cell run, estimating the time left from
+ * the time between updates
+ */
+export class ProgressTracker {
+  private progress = new Map<
+    string,
+    { state: ProgressState; startedAt: number }
+  >();
+
+  update(log: PlutoLogEntry, now: number = Date.now()): ProgressState {
+    // Updates of the same bar share the id of their log message
+    const id = log.id ?? log.msg[0];
+    const value = log.kwargs?.find(([name]) => name === "progress")?.[1][0];
+    const done = value === '"done"' || value === "done";
+    const number = Number(value);
+    const fraction = done
+      ? 1
+      : value !== undefined && value !== "nothing" && Number.isFinite(number)
+        ? Math.min(Math.max(number, 0), 1)
+        : undefined;
+
+    const startedAt = this.progress.get(id)?.startedAt ?? now;
+    const elapsed = (now - startedAt) / 1000;
+    const state: ProgressState = {
+      id,
+      name: log.msg[0] || "Progress",
+      fraction,
+      done,
+      eta:
+        fraction && fraction < 1 && elapsed > 0
+          ? (elapsed / fraction) * (1 - fraction)
+          : undefined,
+    };
+    this.progress.set(id, { state, startedAt });
+    return state;
+  }
+
+  get(id: string): ProgressState | undefined {
+    return this.progress.get(id)?.state;
+  }
+
+  clear(): void {
+    this.progress.clear();
+  }
+}
+
+/**
+ * Format a duration in seconds, e.g. `1h 2m`, `3m 4s` or `5s`
+ */
+export function formatEta(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = total % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${rest}s`;
+  }
+  return `${rest}s`;
+}
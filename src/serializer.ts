@@ -4,6 +4,13 @@ import {
   serializePlutoNotebook,
 } from "./plutoSerializer.ts";
 import { CellResultData } from "@plutojl/rainbow";
+import { ProgressState, formatEta } from "./progressLogs.ts";
+import {
+  PLUTO_STACKTRACE_MIME,
+  PlutoErrorBody,
+  formatStacktrace,
+  formatStacktraceText,
+} from "./stacktrace.ts";
 
 export function formatCellOutput(
   output: CellResultData["output"]
@@ -14,6 +21,85 @@ export function formatCellOutput(
   ]);
 }
 
+/** Mime type of the outputs that show an error with its stack trace */
+export const PLUTO_ERROR_MIME = "x-application/pluto-error";
+
+/**
+ * Format the output of an errored cell. The stack trace links to cells for
+ * the Pluto renderer, with a plain error item for other renderers.
+ */
+export function formatErrorOutput(
+  output: CellResultData["output"],
+  getCellLabel: (cellId: string) => string | undefined
+): vscode.NotebookCellOutput {
+  const body: PlutoErrorBody =
+    output.mime === PLUTO_STACKTRACE_MIME
+      ? (output.body as PlutoErrorBody)
+      : {
+          msg:
+            typeof output.body === "string"
+              ? output.body
+              : new TextDecoder().decode(output.body as Uint8Array),
+        };
+  const view = formatStacktrace(body, getCellLabel);
+  // e.g. `MethodError: no method matching ...`
+  const name = /^(\w+): /.exec(view.message)?.[1] ?? "Error";
+
+  return new vscode.NotebookCellOutput([
+    vscode.NotebookCellOutputItem.json(view, PLUTO_ERROR_MIME),
+    vscode.NotebookCellOutputItem.error({
+      name,
+      message: view.message,
+      stack: formatStacktraceText(view),
+    }),
+  ]);
+}
+
+export type CellLog = CellResultData["logs"][number];
+
+/** Mime type of the outputs that show a log message of a cell */
+export const PLUTO_LOG_MIME = "x-application/pluto-log";
+
+export function formatLogOutput(log: CellLog): vscode.NotebookCellOutput {
+  // One output per message, so each renders as its own item
+  return new vscode.NotebookCellOutput(
+    [vscode.NotebookCellOutputItem.json(log, PLUTO_LOG_MIME)],
+    { pluto_log: true }
+  );
+}
+
+/** Mime type of the outputs that show a progress bar of a running cell */
+export const PLUTO_PROGRESS_MIME = "x-application/pluto-progress";
+
+export function formatProgressItem(
+  progress: ProgressState
+): vscode.NotebookCellOutputItem {
+  return vscode.NotebookCellOutputItem.json(
+    {
+      name: progress.name,
+      fraction: progress.fraction,
+      eta: progress.eta !== undefined ? formatEta(progress.eta) : undefined,
+    },
+    PLUTO_PROGRESS_MIME
+  );
+}
+
+export function formatProgressOutput(
+  progress: ProgressState
+): vscode.NotebookCellOutput {
+  // Marked as a log, so it goes away with the logs of the run
+  return new vscode.NotebookCellOutput([formatProgressItem(progress)], {
+    pluto_log: true,
+  });
+}
+
+/**
+ * Whether an output shows a log message rather than the cell result
+ */
+export function isLogOutput(output: vscode.NotebookCellOutput): boolean {
+  return output.metadata?.pluto_log === true;
+}
+
 export class PlutoNotebookSerializer implements vscode.NotebookSerializer {
   async deserializeNotebook(
     content: Uint8Array,
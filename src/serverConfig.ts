@@ -0,0 +1,269 @@
+import { accessSync, constants, realpathSync, statSync } from "fs";
+import { basename, delimiter, isAbsolute, join } from "path";
+import { InvalidServerOptionsError, JuliaNotFoundError } from "./serverErrors.ts";
+import { SERVER_VERSIONS_MARKER } from "./versionCheck.ts";
+
+/**
+ * Options controlling how the Julia process hosting Pluto is launched.
+ * These map one-to-one onto the `pluto-notebook.julia*` settings.
+ */
+export interface JuliaServerOptions {
+  /** Julia executable name or path (default: "julia") */
+  executablePath?: string;
+  /**
+   * juliaup channel, passed as `+<channel>` (e.g. "release", "1.10") when the
+   * executable is juliaup's launcher
+   */
+  channel?: string;
+  /** Project environment, passed as `--project=<project>` */
+  project?: string;
+  /** Thread count, passed as `--threads=<threads>` (e.g. "4", "auto", "4,1") */
+  threads?: string;
+  /** Extra command line arguments passed to Julia before `-e` */
+  args?: string[];
+  /** Extra environment variables for the Julia process */
+  env?: Record<string, string>;
+}
+
+export interface ServerCommand {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Shared Julia environment (`~/.julia/environments/pluto-notebook`) that the
+ * extension installs Pluto into when it is missing. It is appended to the
+ * load path of every server launch so it is found regardless of the project.
+ */
+export const PLUTO_SHARED_ENVIRONMENT = "@pluto-notebook";
+
+const THREADS_PATTERN = /^(auto|\d+)(,\d+)?$/;
+const CHANNEL_PATTERN = /^[\w.+~-]+$/;
+
+/**
+ * Julia code that exits once stdin is closed, i.e. when the extension that
+ * launched the server is gone, even if it could not stop the server
+ */
+export const EXIT_ON_STDIN_CLOSE = `@async (try read(stdin) catch end; exit(0))`;
+
+/**
+ * Build the Julia expression that loads Pluto, reports the Julia and Pluto
+ * versions and runs the server
+ */
+export function buildPlutoRunExpression(port: number): string {
+  const printVersions = `println("${SERVER_VERSIONS_MARKER} julia=",VERSION," pluto=",Pluto.PLUTO_VERSION)`;
+  return `using Pluto;${printVersions};${EXIT_ON_STDIN_CLOSE};Pluto.run(port=${port};launch_browser=false)`;
+}
+
+/**
+ * Build the full command used to spawn the Pluto server
+ */
+export function buildServerCommand(
+  options: JuliaServerOptions,
+  port: number,
+  baseEnv: NodeJS.ProcessEnv = process.env
+): ServerCommand {
+  const args: string[] = [];
+  const env = { ...baseEnv, ...options.env };
+  const command = options.executablePath || "julia";
+
+  if (options.channel && isJuliaupLauncher(command, env)) {
+    args.push(`+${options.channel}`);
+  }
+  if (options.project) {
+    args.push(`--project=${options.project}`);
+  }
+  if (options.threads) {
+    args.push(`--threads=${options.threads}`);
+  }
+  args.push(...(options.args ?? []));
+  args.push("-e", buildPlutoRunExpression(port));
+
+  return {
+    command,
+    args,
+    env: withSharedEnvironment(env),
+  };
+}
+
+/**
+ * Build the command that installs packages into the shared environment
+ */
+export function buildInstallCommand(
+  options: JuliaServerOptions,
+  packages: string[],
+  baseEnv: NodeJS.ProcessEnv = process.env
+): ServerCommand {
+  const args: string[] = [];
+  const env = { ...baseEnv, ...options.env };
+  const command = options.executablePath || "julia";
+
+  if (options.channel && isJuliaupLauncher(command, env)) {
+    args.push(`+${options.channel}`);
+  }
+  args.push(
+    `--project=${PLUTO_SHARED_ENVIRONMENT}`,
+    "--startup-file=no",
+    "-e",
+    `import Pkg; Pkg.add(${JSON.stringify(packages)})`
+  );
+
+  return { command, args, env };
+}
+
+/**
+ * Append the shared environment to JULIA_LOAD_PATH. An empty entry expands
+ * to Julia's default load path, so an unset variable keeps the defaults.
+ */
+function withSharedEnvironment(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const loadPath = env.JULIA_LOAD_PATH ?? "";
+  if (loadPath.split(delimiter).includes(PLUTO_SHARED_ENVIRONMENT)) {
+    return env;
+  }
+  return {
+    ...env,
+    JULIA_LOAD_PATH: `${loadPath}${delimiter}${PLUTO_SHARED_ENVIRONMENT}`,
+  };
+}
+
+/**
+ * Validate option values that can be checked without launching Julia.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateServerOptions(options: JuliaServerOptions): string[] {
+  const problems: string[] = [];
+
+  if (options.channel && !CHANNEL_PATTERN.test(options.channel)) {
+    problems.push(`Invalid juliaup channel "${options.channel}"`);
+  }
+
+  if (options.threads && !THREADS_PATTERN.test(options.threads)) {
+    problems.push(
+      `Invalid thread count "${options.threads}" (expected e.g. "4", "auto" or "4,1")`
+    );
+  }
+
+  // "@name" refers to a shared environment and "@." searches upwards,
+  // so only plain paths can be checked for existence here
+  if (options.project && !options.project.startsWith("@")) {
+    if (!isDirectory(options.project) && !isFile(options.project)) {
+      problems.push(`Julia project "${options.project}" does not exist`);
+    }
+  }
+
+  for (const arg of options.args ?? []) {
+    if (arg === "-e" || arg === "--eval") {
+      problems.push(`Extra Julia argument "${arg}" is not allowed`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(options.env ?? {})) {
+    if (typeof value !== "string") {
+      problems.push(`Environment variable ${name} must be a string`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Resolve the Julia executable to an absolute path, searching PATH for bare
+ * command names. Returns undefined when it cannot be found.
+ */
+export function resolveExecutable(
+  command: string,
+  env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  if (isAbsolute(command) || command.includes("/") || command.includes("\\")) {
+    return isExecutable(command) ? command : undefined;
+  }
+
+  const extensions =
+    process.platform === "win32"
+      ? (env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")
+      : [""];
+
+  for (const dir of (env.PATH ?? "").split(delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    for (const ext of extensions) {
+      const candidate = join(dir, command + ext);
+      if (isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether an executable is juliaup's `julia` launcher, the only one that
+ * understands `+<channel>`. A bare command name that is not on the PATH is
+ * assumed to be the launcher.
+ */
+export function isJuliaupLauncher(
+  command: string,
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  const resolved = resolveExecutable(command, env);
+  if (!resolved) {
+    return !isAbsolute(command) && !/[\\/]/.test(command);
+  }
+
+  let realPath = resolved;
+  try {
+    realPath = realpathSync(resolved);
+  } catch {
+    // Keep the unresolved path
+  }
+  // `~/.juliaup/bin/julia` links to `julialauncher`; on Windows the launcher
+  // is an app execution alias in `WindowsApps`
+  const segments = realPath.split(/[\\/]/);
+  return (
+    basename(realPath).startsWith("julialauncher") ||
+    segments.includes(".juliaup") ||
+    segments.includes("WindowsApps")
+  );
+}
+
+/**
+ * Check options and executable before spawning, throwing a descriptive error
+ */
+export function assertServerOptions(options: JuliaServerOptions): void {
+  const problems = validateServerOptions(options);
+  if (problems.length > 0) {
+    throw new InvalidServerOptionsError(problems);
+  }
+
+  const command = options.executablePath || "julia";
+  if (!resolveExecutable(command, { ...process.env, ...options.env })) {
+    throw new JuliaNotFoundError(command);
+  }
+}
+
+function isExecutable(path: string): boolean {
+  try {
+    accessSync(path, constants.X_OK);
+    return isFile(path);
+  } catch {
+    return false;
+  }
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,138 @@
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * A message recognized in the output of the Julia server process
+ */
+export interface ServerDiagnostic {
+  severity: DiagnosticSeverity;
+  /** First line of the message, without the Julia prefix */
+  message: string;
+  /** Following lines, such as a stack trace */
+  details: string[];
+  timestamp: number;
+}
+
+// `ERROR: LoadError: ...`, printed for uncaught exceptions
+const ERROR_PATTERN = /^ERROR: (.*)$/;
+// `┌ Warning: ...` starts a multi-line log record, `[ Warning: ...` is a
+// single-line one
+const LOG_RECORD_PATTERN = /^([┌[]) (Error|Warning|Info): (.*)$/;
+// `  ✗ SomePackage` in the summary of a failed precompilation
+const PRECOMPILE_FAILURE_PATTERN = /^\s*✗ (\S+)/;
+const PACKAGE_ERRORS = [
+  /Unsatisfiable requirements detected/,
+  /Package \S+ not found in current path/,
+];
+
+const SEVERITIES: Record<string, DiagnosticSeverity> = {
+  Error: "error",
+  Warning: "warning",
+  Info: "info",
+};
+
+/**
+ * Incrementally parse server output into diagnostics. Output arrives in
+ * chunks that may split lines, and a message may span several lines, so a
+ * message is only complete once the next message (or `flush`) is seen.
+ */
+export class ServerOutputParser {
+  private partialLine = "";
+  private current?: ServerDiagnostic;
+  // Whether the current message is a `┌ ... └` log record
+  private inLogRecord = false;
+
+  /**
+   * Feed a chunk of output, returning the diagnostics it completed
+   */
+  push(chunk: string): ServerDiagnostic[] {
+    const lines = (this.partialLine + chunk).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+
+    const completed: ServerDiagnostic[] = [];
+    for (const line of lines) {
+      this.parseLine(line, completed);
+    }
+    return completed;
+  }
+
+  /**
+   * Complete any pending message, e.g. when the process exited
+   */
+  flush(): ServerDiagnostic[] {
+    const completed: ServerDiagnostic[] = [];
+    if (this.partialLine) {
+      this.parseLine(this.partialLine, completed);
+      this.partialLine = "";
+    }
+    this.finish(completed);
+    return completed;
+  }
+
+  private parseLine(line: string, completed: ServerDiagnostic[]): void {
+    if (this.current && this.isContinuation(line)) {
+      if (this.inLogRecord && line.startsWith("└")) {
+        this.current.details.push(line.replace(/^└\s*/, ""));
+        this.finish(completed);
+      } else {
+        this.current.details.push(line.replace(/^│\s?/, ""));
+      }
+      return;
+    }
+
+    this.finish(completed);
+
+    const error = ERROR_PATTERN.exec(line);
+    if (error) {
+      this.start("error", error[1]);
+      return;
+    }
+
+    const record = LOG_RECORD_PATTERN.exec(line);
+    if (record) {
+      const [, bracket, level, message] = record;
+      this.start(SEVERITIES[level], message);
+      if (bracket === "┌") {
+        this.inLogRecord = true;
+      } else {
+        this.finish(completed);
+      }
+      return;
+    }
+
+    const precompile = PRECOMPILE_FAILURE_PATTERN.exec(line);
+    if (precompile) {
+      this.start("error", `Failed to precompile ${precompile[1]}`);
+      this.finish(completed);
+      return;
+    }
+
+    if (PACKAGE_ERRORS.some((pattern) => pattern.test(line))) {
+      this.start("error", line.trim());
+      this.finish(completed);
+    }
+  }
+
+  private isContinuation(line: string): boolean {
+    if (this.inLogRecord) {
+      return line.startsWith("│") || line.startsWith("└");
+    }
+    // Stack traces and `in expression starting at` lines of an ERROR block
+    return (
+      /^\s+\S/.test(line) ||
+      /^(Stacktrace|Caused by):/.test(line) ||
+      line.startsWith("in expression starting at")
+    );
+  }
+
+  private start(severity: DiagnosticSeverity, message: string): void {
+    this.current = { severity, message, details: [], timestamp: Date.now() };
+  }
+
+  private finish(completed: ServerDiagnostic[]): void {
+    if (this.current) {
+      completed.push(this.current);
+    }
+    this.current = undefined;
+    this.inLogRecord = false;
+  }
+}
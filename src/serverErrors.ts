@@ -0,0 +1,107 @@
+/**
+ * Errors raised while launching the Pluto server
+ */
+
+/**
+ * The configured Julia executable could not be found or launched
+ */
+export class JuliaNotFoundError extends Error {
+  constructor(readonly executable: string) {
+    super(
+      `Julia executable "${executable}" was not found. Install Julia or set "pluto-notebook.juliaPath".`
+    );
+    this.name = "JuliaNotFoundError";
+  }
+}
+
+/**
+ * Julia started, but the Pluto package is not available in its environment
+ */
+export class PlutoNotInstalledError extends Error {
+  constructor(readonly project?: string) {
+    super(
+      `The Pluto package is not installed in the ${
+        project ? `Julia project "${project}"` : "default Julia environment"
+      }.`
+    );
+    this.name = "PlutoNotInstalledError";
+  }
+}
+
+/**
+ * One or more server settings have invalid values
+ */
+export class InvalidServerOptionsError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid Pluto server settings: ${problems.join("; ")}`);
+    this.name = "InvalidServerOptionsError";
+  }
+}
+
+/**
+ * The Julia process exited before the Pluto server became ready
+ */
+export class JuliaProcessExitedError extends Error {
+  constructor(
+    readonly exitCode: number | null,
+    readonly signal: NodeJS.Signals | null,
+    readonly detail?: string
+  ) {
+    super(
+      `Julia exited before the Pluto server was ready (${
+        signal ? `signal ${signal}` : `exit code ${exitCode ?? "unknown"}`
+      })${
+        detail ? `: ${detail}` : ". See the Pluto Server output for details."
+      }`
+    );
+    this.name = "JuliaProcessExitedError";
+  }
+}
+
+/**
+ * Installing packages into the shared environment failed
+ */
+export class PlutoInstallError extends Error {
+  constructor(readonly exitCode: number | null) {
+    super(
+      `Installing Pluto failed (exit code ${
+        exitCode ?? "unknown"
+      }). See the Pluto Server output for details.`
+    );
+    this.name = "PlutoInstallError";
+  }
+}
+
+/**
+ * The Pluto server port is already taken by another process
+ */
+export class PortInUseError extends Error {
+  constructor(readonly port: number) {
+    super(
+      `Port ${port} is already in use. Free it, change "pluto-notebook.port" or enable "pluto-notebook.autoSelectPort".`
+    );
+    this.name = "PortInUseError";
+  }
+}
+
+/**
+ * The Pluto server did not become ready within the startup timeout
+ */
+export class ServerStartTimeoutError extends Error {
+  constructor(readonly timeoutSeconds: number) {
+    super(
+      `Pluto server did not become ready within ${timeoutSeconds}s. Increase "pluto-notebook.startupTimeout" if Julia needs longer to precompile.`
+    );
+    this.name = "ServerStartTimeoutError";
+  }
+}
+
+/**
+ * Starting the Pluto server was cancelled by the user
+ */
+export class ServerStartCancelledError extends Error {
+  constructor() {
+    super("Starting the Pluto server was cancelled");
+    this.name = "ServerStartCancelledError";
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Helpers for Pluto server URLs and the access secret embedded in them
+ */
+
+const SECRET_PATTERN = /([?&]secret=)([^&\s#"']+)/g;
+
+/**
+ * Extract the access secret from text containing a Pluto URL, such as the
+ * "Go to http://localhost:1234/?secret=... in your browser" startup line
+ */
+export function extractSecret(text: string): string | undefined {
+  const match = new RegExp(SECRET_PATTERN.source).exec(text);
+  return match?.[2];
+}
+
+/**
+ * Replace any secret in URLs within the text, so it can be logged safely
+ */
+export function redactSecret(text: string): string {
+  return text.replace(SECRET_PATTERN, "$1***");
+}
+
+/**
+ * Build the browser URL for editing a notebook
+ */
+export function buildNotebookUrl(
+  serverUrl: string,
+  notebookId: string,
+  secret?: string
+): string {
+  const params = new URLSearchParams({ id: notebookId });
+  if (secret) {
+    params.set("secret", secret);
+  }
+  return `${serverUrl}/edit?${params.toString()}`;
+}
+
+export interface ParsedServerUrl {
+  /** Base URL without query string or trailing slash, e.g. https://lab:8443/pluto */
+  url: string;
+  secret?: string;
+}
+
+/**
+ * Parse a configured Pluto server URL (scheme, host, port, optional path
+ * prefix and optional `?secret=`) into a base URL and secret
+ */
+export function parseServerUrl(raw: string): ParsedServerUrl {
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim());
+  } catch {
+    throw new Error(`Invalid Pluto server URL "${redactSecret(raw)}"`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(
+      `Pluto server URL must use http or https, got "${parsed.protocol}"`
+    );
+  }
+
+  const secret = parsed.searchParams.get("secret") ?? undefined;
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  return { url: `${parsed.origin}${path}`, secret };
+}
+
+/**
+ * Check whether a Pluto server answers HTTP requests at the given URL. Any
+ * response counts, since an authentication error still means it is up.
+ */
+export async function pingServer(
+  serverUrl: string,
+  timeoutMs: number = 2000
+): Promise<boolean> {
+  try {
+    await fetch(`${serverUrl}/ping`, {
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
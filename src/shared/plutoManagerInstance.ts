@@ -1,5 +1,6 @@
 import "@plutojl/rainbow/node-polyfill";
 import { PlutoManager } from "../plutoManager.ts";
+import { JuliaServerOptions } from "../serverConfig.ts";
 
 /**
  * Shared PlutoManager instance that can be used by both the extension and MCP server
@@ -15,10 +16,11 @@ export function getSharedPlutoManager(
       message: string,
       ...items: T[]
     ): Thenable<T | undefined>;
-  }
+  },
+  serverOptions: JuliaServerOptions = {}
 ): PlutoManager {
   if (!sharedPlutoManager) {
-    sharedPlutoManager = new PlutoManager(port, outputChannel);
+    sharedPlutoManager = new PlutoManager(port, outputChannel, serverOptions);
   }
   return sharedPlutoManager;
 }
@@ -26,3 +28,108 @@ export function getSharedPlutoManager(
 export function clearSharedPlutoManager(): void {
   sharedPlutoManager = undefined;
 }
+
+/**
+ * PlutoManagers keyed by workspace folder, so that each folder of a
+ * multi-root workspace gets its own server, port and Julia environment.
+ * Notebooks that do not belong to a separate folder use the default manager.
+ * Folder managers are created when a notebook of the folder is first used.
+ */
+export class PlutoManagerRegistry {
+  private managers = new Map<string, PlutoManager>(); // folder -> manager
+  // Managers not bound to a folder, disposed by whoever added them
+  private otherManagers: PlutoManager[] = [];
+  private resolveNotebook?: (notebookPath: string) => PlutoManager | undefined;
+
+  constructor(
+    private readonly defaultManager: PlutoManager,
+    private readonly resolveFolder: (
+      notebookPath: string
+    ) => string | undefined,
+    private readonly createManager: (folder: string) => PlutoManager
+  ) {}
+
+  getDefaultManager(): PlutoManager {
+    return this.defaultManager;
+  }
+
+  /**
+   * Get the manager responsible for a notebook, creating it if needed
+   */
+  getManagerForPath(notebookPath: string): PlutoManager {
+    const folder = this.resolveFolder(notebookPath);
+    if (folder === undefined) {
+      return this.defaultManager;
+    }
+
+    let manager = this.managers.get(folder);
+    if (!manager) {
+      manager = this.createManager(folder);
+      this.managers.set(folder, manager);
+    }
+    return manager;
+  }
+
+  /**
+   * Get the manager actually running a notebook, which may differ from the
+   * one of its folder, e.g. when another Julia was picked as its kernel
+   */
+  getManagerForNotebook(notebookPath: string): PlutoManager {
+    return (
+      this.resolveNotebook?.(notebookPath) ??
+      this.getManagerForPath(notebookPath)
+    );
+  }
+
+  /**
+   * Decide which manager runs a notebook, falling back to the one of its
+   * folder when the resolver returns undefined
+   */
+  setNotebookResolver(
+    resolve: (notebookPath: string) => PlutoManager | undefined
+  ): void {
+    this.resolveNotebook = resolve;
+  }
+
+  /**
+   * Add a manager that does not belong to a folder, e.g. the one of a Julia
+   * installation. It is listed by `getManagers` but not disposed here.
+   */
+  addManager(manager: PlutoManager): void {
+    this.otherManagers.push(manager);
+  }
+
+  /**
+   * Get the default manager followed by all folder managers and the other
+   * added managers
+   */
+  getManagers(): PlutoManager[] {
+    return [
+      this.defaultManager,
+      ...this.managers.values(),
+      ...this.otherManagers,
+    ];
+  }
+
+  /**
+   * Get the folder managers with the folder each one belongs to
+   */
+  getFolderManagers(): Array<[string, PlutoManager]> {
+    return [...this.managers.entries()];
+  }
+
+  /**
+   * Shut down and forget the manager of a removed folder
+   */
+  removeFolder(folder: string): void {
+    this.managers.get(folder)?.dispose();
+    this.managers.delete(folder);
+  }
+
+  dispose(): void {
+    for (const manager of this.managers.values()) {
+      manager.dispose();
+    }
+    this.managers.clear();
+  }
+}
@@ -0,0 +1,47 @@
+import * as vscode from "vscode";
+import { JuliaServerOptions } from "../serverConfig.ts";
+import { NotebookProcessSettings } from "../notebookProcessOptions.ts";
+
+/**
+ * Read the Julia launch options from the `pluto-notebook` settings
+ */
+export function readJuliaServerOptions(
+  scope?: vscode.ConfigurationScope
+): JuliaServerOptions {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+
+  return {
+    executablePath: config.get<string>("juliaPath", "julia").trim(),
+    channel: config.get<string>("juliaChannel", "").trim() || undefined,
+    project: config.get<string>("juliaProject", "").trim() || undefined,
+    threads: config.get<string>("juliaThreads", "").trim() || undefined,
+    args: config.get<string[]>("juliaArgs", []),
+    env: config.get<Record<string, string>>("juliaEnv", {}),
+  };
+}
+
+/**
+ * Read the per-notebook process options, keyed by glob pattern
+ */
+export function readNotebookProcessSettings(
+  scope?: vscode.ConfigurationScope
+): NotebookProcessSettings {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+  return config.get<NotebookProcessSettings>("notebookProcessOptions", {});
+}
+
+/**
+ * Read the configured Pluto server URL and secret. An empty URL means the
+ * extension launches and manages a local server.
+ */
+export function readServerConnection(scope?: vscode.ConfigurationScope): {
+  url?: string;
+  secret?: string;
+} {
+  const config = vscode.workspace.getConfiguration("pluto-notebook", scope);
+
+  return {
+    url: config.get<string>("serverUrl", "").trim() || undefined,
+    secret: config.get<string>("serverSecret", "").trim() || undefined,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * A stack frame as sent by Pluto in the body of an errored cell output
+ */
+export interface PlutoStackFrame {
+  call: string;
+  func?: string;
+  file: string;
+  line: number;
+  inlined?: boolean;
+  from_c?: boolean;
+  url?: string;
+  source_package?: string;
+  parent_module?: string;
+}
+
+/**
+ * Body of a cell output with mime `application/vnd.pluto.stacktrace+object`
+ */
+export interface PlutoErrorBody {
+  msg: string;
+  stacktrace?: PlutoStackFrame[];
+}
+
+export const PLUTO_STACKTRACE_MIME = "application/vnd.pluto.stacktrace+object";
+
+/**
+ * Where a frame points to: a notebook cell or a source file, with a link to
+ * the source online when Pluto knows one
+ */
+export type FrameLocation =
+  | { cellId: string; line: number }
+  | { file: string; line: number; url?: string };
+
+export interface StackFrameView {
+  call: string;
+  /** e.g. `Cell 3, line 2` or `Statistics.jl:174` */
+  source: string;
+  location?: FrameLocation;
+  internal: boolean;
+}
+
+/**
+ * Consecutive frames that are either all internal (and shown collapsed) or
+ * all from user code
+ */
+export interface StackFrameGroup {
+  internal: boolean;
+  frames: StackFrameView[];
+}
+
+export interface StackTraceView {
+  message: string;
+  groups: StackFrameGroup[];
+}
+
+// Cell code is run from `<notebook path>#==#<cell id>`
+const CELL_FILE_PATTERN = /#==#([0-9a-f-]{36})$/;
+
+const INTERNAL_PACKAGES = new Set([
+  "Pluto",
+  "PlutoRunner",
+  "Base",
+  "Core",
+  "Distributed",
+  "Malt",
+]);
+
+/**
+ * Get the cell or file a frame points to
+ */
+export function getFrameLocation(
+  frame: PlutoStackFrame
+): FrameLocation | undefined {
+  const cell = CELL_FILE_PATTERN.exec(frame.file);
+  if (cell) {
+    return { cellId: cell[1], line: frame.line };
+  }
+  // Base and stdlib frames have paths relative to the Julia build
+  if (frame.file && !frame.file.startsWith(".") && frame.file !== "none") {
+    return frame.url
+      ? { file: frame.file, line: frame.line, url: frame.url }
+      : { file: frame.file, line: frame.line };
+  }
+  return undefined;
+}
+
+/**
+ * Whether a frame belongs to Pluto, Julia itself or C code rather than to the
+ * notebook or the packages it uses
+ */
+export function isInternalFrame(frame: PlutoStackFrame): boolean {
+  if (CELL_FILE_PATTERN.test(frame.file)) {
+    return false;
+  }
+  const owner = frame.source_package ?? frame.parent_module;
+  return (
+    !!frame.from_c ||
+    (owner !== undefined && INTERNAL_PACKAGES.has(owner)) ||
+    frame.file.startsWith(".") ||
+    frame.file === "none"
+  );
+}
+
+/**
+ * Prepare a Pluto stack trace for display, collapsing runs of internal
+ * frames. `getCellLabel` names the cells of the notebook, e.g. `Cell 3`.
+ */
+export function formatStacktrace(
+  error: PlutoErrorBody,
+  getCellLabel: (cellId: string) => string | undefined = () => undefined
+): StackTraceView {
+  const groups: StackFrameGroup[] = [];
+
+  for (const frame of error.stacktrace ?? []) {
+    const location = getFrameLocation(frame);
+    const internal = isInternalFrame(frame);
+    const view: StackFrameView = {
+      call: frame.call,
+      source:
+        location && "cellId" in location
+          ? `${getCellLabel(location.cellId) ?? "Other cell"}, line ${frame.line}`
+          : `${frame.file.split(/[\\/]/).pop()}:${frame.line}`,
+      location,
+      internal,
+    };
+
+    const last = groups[groups.length - 1];
+    if (last && last.internal === internal) {
+      last.frames.push(view);
+    } else {
+      groups.push({ internal, frames: [view] });
+    }
+  }
+
+  return { message: error.msg, groups };
+}
+
+/**
+ * Render a stack trace as plain text, for outputs without the Pluto renderer
+ */
+export function formatStacktraceText(view: StackTraceView): string {
+  const lines: string[] = [];
+  for (const group of view.groups) {
+    if (group.internal) {
+      lines.push(`  [${group.frames.length} internal frame(s)]`);
+    } else {
+      lines.push(
+        ...group.frames.map((frame) => `  ${frame.call} @ ${frame.source}`)
+      );
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,114 @@
+/**
+ * Julia and Pluto versions reported by a server launched by the extension
+ */
+export interface ServerVersions {
+  julia: string;
+  pluto: string;
+}
+
+/**
+ * Versions known to work with the protocol spoken by @plutojl/rainbow.
+ * `below` is exclusive.
+ */
+export const SUPPORTED_JULIA_VERSIONS = { min: "1.10.0" };
+export const SUPPORTED_PLUTO_VERSIONS = { min: "0.20.0", below: "0.21.0" };
+
+/**
+ * Prefix of the line printed by the server launch expression before Pluto
+ * starts, e.g. `pluto-notebook versions: julia=1.11.2 pluto=0.20.4`
+ */
+export const SERVER_VERSIONS_MARKER = "pluto-notebook versions:";
+
+const VERSIONS_PATTERN = new RegExp(
+  `${SERVER_VERSIONS_MARKER} julia=(\\S+) pluto=(\\S+)`
+);
+
+/**
+ * Extract the server versions from the launch output
+ */
+export function parseServerVersions(
+  output: string
+): ServerVersions | undefined {
+  const match = VERSIONS_PATTERN.exec(output);
+  if (!match) {
+    return undefined;
+  }
+  return { julia: match[1], pluto: match[2] };
+}
+
+/**
+ * Parse a version such as `1.10.4`, `v0.20.4` or `1.12.0-beta1` into its
+ * numeric parts. Pre-release and build suffixes are ignored.
+ */
+export function parseVersion(
+  version: string
+): [number, number, number] | undefined {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+/**
+ * Compare two versions, returning a negative number, zero or a positive
+ * number like a sort comparator. Unparsable versions compare as equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return 0;
+  }
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * List warnings for server versions outside the supported ranges
+ */
+export function checkServerVersions(versions: ServerVersions): string[] {
+  const warnings: string[] = [];
+
+  if (compareVersions(versions.julia, SUPPORTED_JULIA_VERSIONS.min) < 0) {
+    warnings.push(
+      `Julia ${versions.julia} is not supported, please use Julia ${SUPPORTED_JULIA_VERSIONS.min} or newer`
+    );
+  }
+
+  const { min, below } = SUPPORTED_PLUTO_VERSIONS;
+  if (compareVersions(versions.pluto, min) < 0) {
+    warnings.push(
+      `Pluto ${versions.pluto} is older than the supported versions (${min} to below ${below}), please update Pluto`
+    );
+  } else if (compareVersions(versions.pluto, below) >= 0) {
+    warnings.push(
+      `Pluto ${versions.pluto} is newer than the supported versions (${min} to below ${below}) and may not work correctly`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Whether a notebook file was written by a Pluto release with a newer major
+ * or minor version than the running server. Patch releases are compatible.
+ */
+export function isNotebookNewerThanServer(
+  notebookVersion: string,
+  serverVersion: string
+): boolean {
+  const notebook = parseVersion(notebookVersion);
+  const server = parseVersion(serverVersion);
+  if (!notebook || !server) {
+    return false;
+  }
+  return (
+    notebook[0] > server[0] ||
+    (notebook[0] === server[0] && notebook[1] > server[1])
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * The part of a cell result that tells whether the cell is busy
+ */
+export interface CellActivity {
+  running?: boolean;
+  queued?: boolean;
+}
+
+/**
+ * What the extension knows about the activity of a notebook process
+ */
+export interface WorkerActivity {
+  /** Time of the last update from the notebook */
+  lastActivity: number;
+  /** Whether a cell is running or queued */
+  busy: boolean;
+}
+
+/**
+ * Whether any cell of a notebook is running or queued. A long computation
+ * may send no updates for a long time, so this is checked separately.
+ */
+export function hasActiveCells(
+  cellResults: Record<string, CellActivity | undefined> | undefined
+): boolean {
+  return Object.values(cellResults ?? {}).some(
+    (result) => result?.running === true || result?.queued === true
+  );
+}
+
+/**
+ * Notebooks without updates since `cutoff` and without a busy cell
+ */
+export function findIdleNotebooks(
+  workers: Map<string, WorkerActivity>,
+  cutoff: number
+): string[] {
+  return [...workers.entries()]
+    .filter(([, activity]) => !activity.busy && activity.lastActivity < cutoff)
+    .map(([notebookPath]) => notebookPath);
+}
+
+/**
+ * The notebook used least recently, leaving out busy ones
+ */
+export function findLeastRecentlyUsed(
+  workers: Map<string, WorkerActivity>
+): string | undefined {
+  let oldest: [string, WorkerActivity] | undefined;
+  for (const entry of workers.entries()) {
+    if (
+      !entry[1].busy &&
+      (oldest === undefined || entry[1].lastActivity < oldest[1].lastActivity)
+    ) {
+      oldest = entry;
+    }
+  }
+  return oldest?.[0];
+}